@@ -2,60 +2,361 @@
 
 import React from 'react';
 import path from 'path';
+import { createHash } from 'crypto';
 import { renderToBuffer, Font } from '@react-pdf/renderer';
-import { Page, Text, View, Document, StyleSheet } from '@react-pdf/renderer';
-import { parseEpub, ContentNode } from '@/lib/epubParser';
-import { getStylesForElement, StyleMap } from '@/lib/cssToReactPdf';
+import { Page, Text, View, Link, Image as PdfImage, Document, StyleSheet } from '@react-pdf/renderer';
+import { PDFDocument } from 'pdf-lib';
+import { parseEpub, DrmError, ChapterHeading, ContentNode, InlineRun, EpubImage, TableSection, EpubMetadata, EpubFont, Note, PageRole } from '@/lib/epubParser';
+import { computeStyle, getChildPaths, getInitialStyle, getPageBox, getStylesForElement, getStylesWithDefaults, resolveFonts, DEFAULT_STYLES, ElementPath, FontRegistry, ParentStyle, RegisteredFont, StyleMap, StyledNode } from '@/lib/cssToReactPdf';
+import { dedupeDiagnostics, Diagnostic } from '@/lib/diagnostics';
+import { applyTypography, applyTypographyToText, TypographyOption } from '@/lib/typography';
+import type { NotesLayout, SceneBreakOrnament, LinkUrlStyle } from '@/lib/BookDocument';
 
 // Chapter type for BookDocument (matches epubParser)
 interface Chapter {
   title: string;
+  path: string;
+  heading: ChapterHeading;
   content: ContentNode;
   type: 'titlepage' | 'frontmatter' | 'chapter' | 'backmatter';
+  role: PageRole;
+  styleMap: StyleMap;
   author?: string;
 }
 
 // Register EB Garamond fonts for KDP embedding
 const fontsDir = path.join(process.cwd(), 'public/fonts');
 
+const EB_GARAMOND_FACES = [
+  { src: path.join(fontsDir, 'EBGaramond-Regular.ttf'), fontWeight: 400, fontStyle: 'normal' },
+  { src: path.join(fontsDir, 'EBGaramond-Medium.ttf'), fontWeight: 500, fontStyle: 'normal' },
+  { src: path.join(fontsDir, 'EBGaramond-SemiBold.ttf'), fontWeight: 600, fontStyle: 'normal' },
+  { src: path.join(fontsDir, 'EBGaramond-Bold.ttf'), fontWeight: 700, fontStyle: 'normal' },
+  { src: path.join(fontsDir, 'EBGaramond-ExtraBold.ttf'), fontWeight: 800, fontStyle: 'normal' },
+  { src: path.join(fontsDir, 'EBGaramond-Italic.ttf'), fontWeight: 400, fontStyle: 'italic' },
+  { src: path.join(fontsDir, 'EBGaramond-MediumItalic.ttf'), fontWeight: 500, fontStyle: 'italic' },
+  { src: path.join(fontsDir, 'EBGaramond-SemiBoldItalic.ttf'), fontWeight: 600, fontStyle: 'italic' },
+  { src: path.join(fontsDir, 'EBGaramond-BoldItalic.ttf'), fontWeight: 700, fontStyle: 'italic' },
+  { src: path.join(fontsDir, 'EBGaramond-ExtraBoldItalic.ttf'), fontWeight: 800, fontStyle: 'italic' },
+] as const;
+
 Font.register({
   family: 'EBGaramond',
-  fonts: [
-    { src: path.join(fontsDir, 'EBGaramond-Regular.ttf') },
-    { src: path.join(fontsDir, 'EBGaramond-Bold.ttf'), fontWeight: 'bold' },
-    { src: path.join(fontsDir, 'EBGaramond-Italic.ttf'), fontStyle: 'italic' },
-    { src: path.join(fontsDir, 'EBGaramond-BoldItalic.ttf'), fontWeight: 'bold', fontStyle: 'italic' },
-  ],
+  fonts: [...EB_GARAMOND_FACES],
 });
 
-// KDP 6x9 page size in points (72 dpi)
+/**
+ * Weights of a family's faces, by style
+ */
+function getFaceWeights(faces: readonly { fontWeight: number; fontStyle: 'normal' | 'italic' }[]): RegisteredFont['weights'] {
+  return {
+    normal: faces.filter((face) => face.fontStyle === 'normal').map((face) => face.fontWeight),
+    italic: faces.filter((face) => face.fontStyle === 'italic').map((face) => face.fontWeight),
+  };
+}
+
+const EB_GARAMOND: RegisteredFont = { family: 'EBGaramond', name: 'EB Garamond', weights: getFaceWeights(EB_GARAMOND_FACES) };
+
+// Font each generic CSS family is printed with. KDP only accepts embedded
+// fonts, so until other families are bundled they all map to EB Garamond.
+const GENERIC_FONT_FALLBACKS = new Map<string, RegisteredFont>([
+  ['serif', EB_GARAMOND],
+  ['sans-serif', EB_GARAMOND],
+  ['monospace', EB_GARAMOND],
+  ['cursive', EB_GARAMOND],
+  ['fantasy', EB_GARAMOND],
+]);
+
+// Embedded EPUB fonts already registered (react-pdf's font store is global)
+const registeredEpubFonts = new Set<string>();
+
+/**
+ * Register the fonts embedded in an EPUB. Each family is registered under a
+ * name derived from its font data, so two books using the same family name
+ * never mix faces. Upright or italic faces a family lacks are filled in
+ * from EB Garamond. Returns lower-case CSS family name -> registered font.
+ */
+function registerEpubFonts(fonts: EpubFont[], diagnostics: Diagnostic[]): Map<string, RegisteredFont> {
+  const families = new Map<string, EpubFont[]>();
+  for (const font of fonts) {
+    const key = font.family.toLowerCase();
+    families.set(key, [...(families.get(key) || []), font]);
+  }
+
+  const registered = new Map<string, RegisteredFont>();
+  for (const [key, faces] of families) {
+    const hash = createHash('sha1');
+    faces.forEach((face) => hash.update(face.data));
+    const family = `${faces[0].family}-${hash.digest('hex').slice(0, 8)}`;
+
+    const missingStyles = (['normal', 'italic'] as const).filter((style) => !faces.some((face) => face.fontStyle === style));
+    const fillFaces = EB_GARAMOND_FACES.filter((face) => missingStyles.some((style) => style === face.fontStyle));
+    registered.set(key, { family, name: faces[0].family, weights: getFaceWeights([...faces, ...fillFaces]) });
+    if (missingStyles.length > 0) {
+      diagnostics.push({
+        severity: 'warning',
+        source: faces[0].path,
+        message: `Font "${faces[0].family}" has no ${missingStyles.join(' or ')} face - using EB Garamond for that text`,
+      });
+    }
+
+    if (registeredEpubFonts.has(family)) continue;
+    registeredEpubFonts.add(family);
+
+    Font.register({
+      family,
+      fonts: [
+        ...faces.map((face) => ({
+          src: `data:font/ttf;base64,${Buffer.from(face.data).toString('base64')}`,
+          fontWeight: face.fontWeight,
+          fontStyle: face.fontStyle,
+        })),
+        ...fillFaces,
+      ],
+    });
+  }
+
+  return registered;
+}
+
+// Characters that are never drawn: whitespace, controls, joiners, soft hyphen
+const INVISIBLE_CHARACTER = /[\s\u0000-\u001f\u007f-\u009f\u00ad\u200b-\u200f\u2028-\u202f\u2060-\u206f\ufeff]/;
+
+/**
+ * Report, per document, characters that neither EB Garamond nor any font
+ * embedded in the EPUB can draw - they would be missing from the PDF
+ */
+async function findMissingGlyphs(
+  chapters: Chapter[],
+  notes: Map<string, Note>,
+  fontFamilies: string[]
+): Promise<Diagnostic[]> {
+  const fonts = [];
+  for (const fontFamily of fontFamilies) {
+    await Font.load({ fontFamily });
+    const font = Font.getFont({ fontFamily }).data;
+    if (font) fonts.push(font);
+  }
+
+  const documents: [string, string[]][] = [
+    ...chapters.map((ch): [string, string[]] => [ch.path, [ch.title, ...extractTextFromTree(ch.content)]]),
+    ...[...notes.values()].map((note): [string, string[]] => [note.id.split('#')[0], extractTextFromTree(note.content)]),
+  ];
+
+  const drawable = new Map<number, boolean>();
+  const missing = new Map<string, Set<string>>();
+  for (const [source, texts] of documents) {
+    for (const char of texts.join('')) {
+      if (INVISIBLE_CHARACTER.test(char)) continue;
+      const codePoint = char.codePointAt(0)!;
+      if (!drawable.has(codePoint)) drawable.set(codePoint, fonts.some((font) => font.hasGlyphForCodePoint(codePoint)));
+      if (!drawable.get(codePoint)) missing.set(source, (missing.get(source) || new Set()).add(char));
+    }
+  }
+
+  return [...missing].map(([source, chars]) => {
+    const listed = [...chars].slice(0, 10).map((char) => `"${char}" (U+${char.codePointAt(0)!.toString(16).toUpperCase().padStart(4, '0')})`);
+    const more = chars.size > 10 ? ` and ${chars.size - 10} more` : '';
+    return { severity: 'warning', source, message: `No font has a glyph for ${listed.join(', ')}${more} - they will be missing from the PDF` };
+  });
+}
+
+// KDP 6x9 page size in points (72 dpi) - unless the CSS sets one with @page
 const KDP_6x9 = { width: 432, height: 648 };
 
+// Page margins (inside/gutter on the left, outside on the right) - unless
+// the CSS sets them with @page
+const PAGE_MARGINS = { top: 72, bottom: 72, inside: 54, outside: 36 };
+
+// Space (pt) that must follow a subhead on its page - about three lines of text
+const HEADING_KEEP_WITH_NEXT = 45;
+
+// Space (pt) that must follow an element the CSS keeps with the next
+// (break-after: avoid) - about two lines of text
+const KEEP_WITH_NEXT = 30;
+
+// Hanging indent (pt) for verse lines that turn onto a second line
+const VERSE_TURN_INDENT = 18;
+
+// Containers set as verse: poem/stanza classes, z3998 structural semantics,
+// or preformatted white-space
+const VERSE_CLASS = /^(poem|poetry|verse|stanza|lyrics?|song|linegroup)$/i;
+const VERSE_EPUB_TYPE = /\bz3998:(poem|verse|song|lyrics)\b/;
+
+// Inherited properties the chapter opener takes from the heading's
+// ancestors - sizes and alignment are the opener's own unless the heading sets them
+const OPENER_INHERITED = ['color', 'fontFamily'];
+
+// Space (pt) that must follow a scene break, so it never ends a page
+const SCENE_BREAK_KEEP_WITH_NEXT = 30;
+
+// Scene break ornaments
+const SCENE_BREAK_ASTERISM = '*\u2003*\u2003*';
+const SCENE_BREAK_GLYPH = '❧';
+const SCENE_BREAK_IMAGE_MAX_WIDTH = 108;
+
+// Size (pt) footnotes are set in at the foot of the page
+const FOOTNOTE_FONT_SIZE = 8.5;
+
+// Space (pt) kept between the text and the footnote rule
+const FOOTNOTE_RULE_SPACE = 6;
+
+// Footnotes never take more than this share of the text block
+const MAX_FOOTNOTE_SHARE = 0.4;
+
+// Most layouts that reserve room for footnotes or move them to their
+// references' pages, after the one that measures them
+const FOOTNOTE_PASSES = 3;
+
+// Space (pt) a link destination needs after it, so it stays with its text
+const LINK_TARGET_PRESENCE_AHEAD = 20;
+
+// Size of drawn small caps, relative to the text they are set in
+const SMALL_CAPS_SCALE = 0.8;
+
 const styles = StyleSheet.create({
+  // Page margins come from the page geometry
   page: {
-    paddingTop: 72,
-    paddingBottom: 72,
-    paddingLeft: 54,
-    paddingRight: 36,
     fontFamily: 'EBGaramond',
     fontSize: 11,
   },
   pageNumber: {
     position: 'absolute',
-    bottom: 36,
     left: 0,
     right: 0,
     textAlign: 'center',
     fontSize: 10,
   },
+  pageRecorder: {
+    position: 'absolute',
+  },
   chapterTitle: {
     fontSize: 18,
     marginBottom: 24,
     textAlign: 'center',
   },
+  // Opener of a heading with a number or subtitle: each part on its own line
+  chapterOpener: {
+    marginBottom: 24,
+  },
+  chapterLabel: {
+    fontSize: 11,
+    letterSpacing: 2,
+    textTransform: 'uppercase',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  chapterSubtitle: {
+    fontSize: 12,
+    fontStyle: 'italic',
+    textAlign: 'center',
+    marginTop: 6,
+  },
   paragraph: {
     textAlign: 'justify',
   },
+  // Lists - marker in a fixed-width column gives the hanging indent
+  list: {
+    marginVertical: 4,
+  },
+  listItem: {
+    flexDirection: 'row',
+  },
+  listMarker: {
+    width: 18,
+    paddingRight: 5,
+    textAlign: 'right',
+  },
+  listItemBody: {
+    flex: 1,
+  },
+  // Tables - rows are flex rows, cell widths come from the column count
+  table: {
+    marginVertical: 6,
+  },
+  tableRow: {
+    flexDirection: 'row',
+  },
+  tableCell: {
+    paddingVertical: 2,
+    paddingHorizontal: 4,
+  },
+  tableCellText: {
+    textAlign: 'left',
+  },
+  // Scene breaks - centered ornament with fixed space above and below
+  sceneBreak: {
+    marginVertical: 12,
+    alignItems: 'center',
+  },
+  sceneBreakOrnament: {
+    textAlign: 'center',
+  },
+  // Pieces of a container split by a page break: no space where it is cut
+  pieceContinued: {
+    marginTop: 0,
+    paddingTop: 0,
+  },
+  pieceContinues: {
+    marginBottom: 0,
+    paddingBottom: 0,
+  },
+  flushLeft: {
+    textIndent: 0,
+  },
+  // Verse - each line its own block, left-aligned, turned lines indented
+  verse: {
+    textAlign: 'left',
+  },
+  verseLine: {
+    paddingLeft: VERSE_TURN_INDENT,
+    textIndent: -VERSE_TURN_INDENT,
+  },
+  // Links read as ordinary text in print - the EPUB's CSS can still colour them
+  link: {
+    color: 'black',
+    textDecoration: 'none',
+  },
+  // Notes - superscript reference numbers, numbered entries with a hanging indent
+  noteRef: {
+    fontSize: 7,
+    verticalAlign: 'super',
+  },
+  noteList: {
+    fontSize: 10,
+  },
+  noteEntry: {
+    flexDirection: 'row',
+    marginBottom: 3,
+  },
+  noteNumber: {
+    width: 18,
+    paddingRight: 5,
+    textAlign: 'right',
+  },
+  noteText: {
+    textAlign: 'left',
+  },
+  notesHeading: {
+    fontSize: 13,
+    marginTop: 18,
+    marginBottom: 8,
+  },
+  footnoteArea: {
+    position: 'absolute',
+    fontSize: FOOTNOTE_FONT_SIZE,
+  },
+  footnoteRule: {
+    width: 72,
+    height: 0.5,
+    backgroundColor: '#000',
+    marginBottom: 4,
+  },
+  image: {
+    alignSelf: 'center',
+    objectFit: 'contain',
+    marginVertical: 6,
+  },
   // Title page styles - proper layout like KDP
   titlePage: {
     flex: 1,
@@ -70,6 +371,11 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     marginBottom: 8,
   },
+  titlePageSubtitle: {
+    fontSize: 14,
+    fontStyle: 'italic',
+    textAlign: 'center',
+  },
   titlePageUnderline: {
     width: 150,
     height: 1,
@@ -98,9 +404,6 @@ const styles = StyleSheet.create({
   // Running headers for chapter pages
   headerContainer: {
     position: 'absolute',
-    top: 36,
-    left: 54,
-    right: 36,
     flexDirection: 'row',
     fontSize: 9,
   },
@@ -118,154 +421,1695 @@ const styles = StyleSheet.create({
 // RECURSIVE NODE RENDERER
 // =============================================================================
 
+// Style object as produced by the CSS converter
+type PdfStyle = ReturnType<typeof getStylesForElement>;
+
+// Book-wide data needed while rendering nodes
+interface RenderContext {
+  styleMap: StyleMap;
+  path: ElementPath;    // where the node being rendered sits, for CSS selector matching
+  images: Map<string, EpubImage>;
+  listDepth: number;    // nesting level of the list being rendered (0 = outermost)
+  textStyle: PdfStyle;  // base style for text nodes (justified body text, left in tables)
+  parentStyle: ParentStyle;  // computed style of the enclosing element, for inheritance and relative lengths
+  blockHeight: number;       // height of the page's text block - images are scaled to fit it
+  noteNumbers: Map<string, number>;  // note id -> number, for the chapter being rendered
+  footnotes?: FootnoteTracker;       // set when notes go at the foot of the page
+  linkTargets: Set<string>;          // internal link targets that are printed, so links can jump to them
+  sceneBreak: SceneBreakOrnament;
+  flushLeft?: boolean;  // first text after a scene break - no indent
+  verse?: boolean;      // inside a poem, song or preformatted block
+  pageSides?: PageSideTracker;  // set in chapter text, the only place the CSS can break pages
+  pageStart?: 'chapter' | 'break';  // nothing printed yet on the page: the chapter opens, or a break was just made
+  keepWithNext?: boolean;           // the CSS avoids a page break after the node
+}
+
+// Forced page break asked for by the CSS: to the next page, or to the next
+// left (even) or right (odd) page
+type PageBreak = 'page' | 'left' | 'right';
+
+// Page a break to a side landed on, filled in by render callbacks
+interface SideBreak {
+  side: 'left' | 'right';
+  pageNumber: number;
+}
+
+// Shared by the side breaks of a chapter. A side break that landed on the
+// wrong side in one layout gets a blank page before it in the next.
+interface PageSideTracker {
+  landed: Map<string, SideBreak>;  // keyed by break, or by chapter for one at its opening
+  blankBefore: Set<string>;
+  chapterKey: string;
+}
+
+// Footnote reference in a text, and the pages the text landed on - filled
+// in by the render callbacks of markers placed before and after the text
+interface FootnotePlacement {
+  noteId: string;
+  chapterKey: string;
+  offset: number;      // characters of the text before the reference
+  textLength: number;
+  startPage: number;   // page the text starts on
+  endPage: number;     // page the text ends on
+}
+
+// Marker before or after a text with footnote references
+interface FootnoteMarker {
+  textKey: string;
+  chapterKey: string;
+  occurrences: string[];  // keys of the text's references in the placements
+  numbers: string[];      // the references' note numbers, as printed
+  edge: 'start' | 'end';
+}
+
+// Shared between the reference markers and the footnote area of a chapter
+interface FootnoteTracker {
+  placements: Map<string, FootnotePlacement>;  // keyed by reference occurrence
+  referencePages: Map<string, number>;         // page each reference fell on in the last layout, counted from its text's first page
+  markerRenders: Map<unknown, FootnoteMarker>; // render callbacks of the markers, to find them in the layout
+  noteNumbers: Map<string, number>;
+  chapterKey: string;
+}
+
+// Footnote area of a chapter, measured in the laid-out book after each render
+interface FootnoteArea {
+  source: string;                       // zip path of the chapter
+  heights: Map<number, number>;         // height (pt) of the notes by page number
+  referencePages: Map<string, number>;  // page each reference fell on, counted from its text's first page
+  misplaced: { noteNumber: number; pageNumber: number; referencePage: number }[];  // notes printed away from their reference
+}
+
+// Page a marker before or after a text landed on, and how many of the
+// text's references are set there
+interface TextEdge {
+  pageNumber: number;
+  references: number;
+}
+
+// Line of laid-out text, with the runs of its styles
+interface LayoutLine {
+  string: string;
+  runs: { start: number; end: number; attributes: { verticalAlign?: string | null } }[];
+}
+
+// Laid-out book react-pdf passes to Document onRender - not in its typings
+interface LayoutNode {
+  box?: { height: number };
+  props?: { render?: unknown; fixed?: boolean };
+  lines?: LayoutLine[];  // text nodes: the lines set on this page
+  children?: LayoutNode[];
+}
+
+/**
+ * Context for rendering the root of a tree - a document's body, or a note
+ * lifted out of its document - below the html element, whose style is
+ * computed first: inheritance and rem lengths start there
+ */
+function documentContext(ctx: Omit<RenderContext, 'path'>, content: ContentNode): RenderContext {
+  const path = getChildPaths(undefined, [content])[0]!;
+  const root = computeStyle(getStylesForElement(ctx.styleMap, path.parent!), ctx.parentStyle).content;
+  return { ...ctx, path, parentStyle: { ...root, rootFontSize: root.inherited.fontSize } };
+}
+
+/**
+ * CSS the stylesheet gives a node at a path. Anonymous text is no element:
+ * it takes no rules of its own and only inherits.
+ */
+function getNodeStyles(node: ContentNode, styleMap: StyleMap, path: ElementPath): ReturnType<typeof getStylesForElement> {
+  return node.tagName.startsWith('#') ? {} : getStylesForElement(styleMap, path);
+}
+
 /**
  * Recursively render a ContentNode tree to react-pdf components
  */
 function renderNode(
   node: ContentNode,
-  styleMap: StyleMap,
-  key: string,
-  debugLog: boolean = false
+  ctx: RenderContext,
+  key: string
 ): React.ReactNode {
-  // Get CSS styles for this node
-  const cssStyles = getStylesForElement(styleMap, node.tagName, node.classNames);
+  // Link destinations go just before the node
+  const destinations = renderLinkDestinations(node.anchors, ctx, key);
+  if (destinations.length > 0) {
+    return [...destinations, renderNode({ ...node, anchors: undefined }, ctx, key)];
+  }
 
-  if (debugLog) {
-    console.log(`=== NODE ${key} ===`);
-    console.log(`  type: ${node.type}, tag: ${node.tagName}, classes: [${node.classNames.join(', ')}]`);
-    console.log(`  cssStyles:`, cssStyles);
+  // Get CSS styles for this node, computed against its parent's
+  const { style: cssStyles, content } = computeStyle(getNodeStyles(node, ctx.styleMap, ctx.path), ctx.parentStyle);
+  const contentCtx: RenderContext = { ...ctx, parentStyle: content, keepWithNext: undefined };
+  const pagination = paginationProps(cssStyles, ctx);
+
+  if (node.type === 'text' && (ctx.verse || isVerse(node, cssStyles))) {
+    return withFootnoteMarkers(node, ctx, key, renderVerse(node, cssStyles, contentCtx, key, pagination));
   }
 
   if (node.type === 'text') {
-    // Text node - render as Text with paragraph base style + CSS styles
-    return (
-      <Text key={key} style={[styles.paragraph, cssStyles]}>
-        {node.text}
+    // Text node - render as Text with paragraph base style + inherited and
+    // own CSS styles, inline runs (em, strong, sup...) as nested Text
+    return withFootnoteMarkers(
+      node,
+      ctx,
+      key,
+      <Text
+        key={key}
+        style={[ctx.textStyle, content.inherited, cssStyles, ctx.flushLeft ? styles.flushLeft : {}]}
+        {...pagination}
+        orphans={content.inherited.orphans}
+        widows={content.inherited.widows}
+      >
+        {node.runs ? renderRuns(node.runs, contentCtx, `${key}-r`) : renderText(node.text || '', contentCtx, `${key}-t`)}
+      </Text>
+    );
+  }
+
+  if (node.type === 'heading') {
+    // Subhead - default heading styles under the EPUB's CSS,
+    // kept on the same page as the start of the following paragraph
+    const heading = computeStyle({ ...DEFAULT_STYLES[headingDefaultsTag(node.level)], ...getStylesForElement(ctx.styleMap, ctx.path) }, ctx.parentStyle);
+    return withFootnoteMarkers(
+      node,
+      ctx,
+      key,
+      <Text
+        key={key}
+        style={[heading.content.inherited, heading.style]}
+        wrap={heading.style.breakInside !== 'avoid'}
+        minPresenceAhead={HEADING_KEEP_WITH_NEXT}
+      >
+        {renderRuns(node.runs || [], { ...ctx, parentStyle: heading.content }, `${key}-r`)}
       </Text>
     );
   }
 
+  if (node.type === 'image') {
+    return renderImage(node, cssStyles, ctx, key);
+  }
+
+  if (node.type === 'list') {
+    return renderList(node, cssStyles, contentCtx, key);
+  }
+
+  if (node.type === 'table') {
+    return renderTable(node, cssStyles, contentCtx, key);
+  }
+
+  if (node.type === 'scene-break') {
+    return renderSceneBreak(node, ctx, key);
+  }
+
   // Container node - render as View with CSS styles, recursively render children
-  // Skip the 'body' wrapper - just render its children
+  // Skip the 'body' wrapper - just render its children, which inherit its styles
+  // and sit directly on the Page, where react-pdf always honors page breaks
   if (node.tagName === 'body' && node.children) {
+    return renderChildren(node.children, contentCtx, key);
+  }
+
+  // Figures are unbreakable so the caption stays with its image
+  const childCtx = !ctx.verse && isVerse(node, cssStyles) ? { ...contentCtx, verse: true } : contentCtx;
+  const wrap = node.tagName !== 'figure' && pagination.wrap;
+  const pieces = splitAtPageBreaks(renderChildren(node.children || [], childCtx, key));
+  if (pieces.length === 1) {
     return (
-      <View key={key}>
-        {node.children.map((child, i) => renderNode(child, styleMap, `${key}-${i}`, debugLog && i < 3))}
+      <View key={key} style={cssStyles} wrap={wrap} minPresenceAhead={pagination.minPresenceAhead}>
+        {pieces[0].contents}
       </View>
     );
   }
 
+  // The container is drawn once per piece, opening on the first and closing on the last
+  const lastPiece = pieces.map((piece) => piece.contents.length > 0).lastIndexOf(true);
+  return pieces.flatMap((piece, i) => [
+    ...piece.breaks,
+    piece.contents.length > 0 && (
+      <View
+        key={`${key}-p${i}`}
+        style={[cssStyles, i > 0 ? styles.pieceContinued : {}, i < lastPiece ? styles.pieceContinues : {}]}
+        wrap={wrap}
+        minPresenceAhead={i === lastPiece ? pagination.minPresenceAhead : undefined}
+      >
+        {piece.contents}
+      </View>
+    ),
+  ]);
+}
+
+// Contents of a container up to a page break, and the breaks before them
+interface ContainerPiece {
+  breaks: React.ReactNode[];
+  contents: React.ReactNode[];
+}
+
+/**
+ * react-pdf only makes a forced page break inside a View it is already
+ * splitting across pages, so the breaks among a container's contents are
+ * lifted out of it: the contents are cut into pieces at the breaks, each
+ * drawn in a View of its own with the breaks between them
+ */
+function splitAtPageBreaks(contents: React.ReactNode[]): ContainerPiece[] {
+  let piece: ContainerPiece = { breaks: [], contents: [] };
+  const pieces = [piece];
+  const visit = (node: React.ReactNode) => {
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+    } else if (React.isValidElement<{ break?: boolean }>(node) && node.props.break) {
+      if (piece.contents.length > 0) pieces.push((piece = { breaks: [], contents: [] }));
+      piece.breaks.push(node);
+    } else {
+      piece.contents.push(node);
+    }
+  };
+  contents.forEach(visit);
+  return pieces;
+}
+
+/**
+ * Page break props from the CSS: break-inside: avoid keeps the node on one
+ * page, break-after: avoid keeps it with the start of the next
+ */
+function paginationProps(cssStyles: PdfStyle, ctx: RenderContext): { wrap: boolean; minPresenceAhead?: number } {
+  return {
+    wrap: cssStyles.breakInside !== 'avoid',
+    minPresenceAhead: ctx.keepWithNext ? KEEP_WITH_NEXT : undefined,
+  };
+}
+
+/**
+ * Whether a node starts a block of verse
+ */
+function isVerse(node: ContentNode, cssStyles: PdfStyle): boolean {
+  return node.classNames.some(name => VERSE_CLASS.test(name))
+    || VERSE_EPUB_TYPE.test(node.attributes['epub:type'] || '')
+    || node.tagName === 'pre'
+    || /^pre(-wrap|-line)?$/.test(cssStyles.whiteSpace ?? '');
+}
+
+/**
+ * Render verse: every line (br) is its own left-aligned Text, so a line too
+ * long for the measure turns onto an indented second line instead of
+ * running on into the next
+ */
+function renderVerse(
+  node: ContentNode,
+  cssStyles: PdfStyle,
+  ctx: RenderContext,
+  key: string,
+  pagination: ReturnType<typeof paginationProps>
+): React.ReactElement {
+  const lines = splitRunLines(node.runs || []);
+
+  // Verse is never justified; centered or right-aligned verse stays so
+  const { textAlign, ...inherited } = ctx.parentStyle.inherited;
+  const blockStyles = { ...cssStyles };
+  delete blockStyles.textAlign;
+  const alignment = textAlign && textAlign !== 'justify' ? { textAlign } : styles.verse;
+
   return (
-    <View key={key} style={cssStyles}>
-      {node.children?.map((child, i) => renderNode(child, styleMap, `${key}-${i}`, debugLog && i < 3))}
+    <View key={key} style={[inherited, blockStyles, alignment]} {...pagination}>
+      {lines.map((line, i) => (
+        <Text key={`${key}-l${i}`} style={styles.verseLine}>
+          {line.length > 0 ? renderRuns(line, ctx, `${key}-l${i}-r`) : ' '}
+        </Text>
+      ))}
     </View>
   );
 }
 
 /**
- * Extract text from a ContentNode tree (for title page credits)
+ * Split inline runs at line breaks, copying the inline elements a break
+ * falls inside onto both lines
  */
-function extractTextFromTree(node: ContentNode): string[] {
-  const texts: string[] = [];
+function splitRunLines(runs: InlineRun[]): InlineRun[][] {
+  const lines: InlineRun[][] = [[]];
+  for (const run of runs) {
+    if (run.children) {
+      splitRunLines(run.children).forEach((childLine, i) => {
+        if (i > 0) lines.push([]);
+        if (childLine.length > 0) lines[lines.length - 1].push({ ...run, children: childLine });
+      });
+    } else if (run.text === '\n') {
+      lines.push([]);
+    } else {
+      lines[lines.length - 1].push(run);
+    }
+  }
+  return lines;
+}
 
-  if (node.type === 'text' && node.text) {
-    texts.push(node.text);
+/**
+ * Render a container's children. The node after a scene break (or the
+ * first child, when the container itself follows one) is set flush-left.
+ * A page break goes between two children when the CSS asks for one before
+ * the second or after the first.
+ */
+function renderChildren(
+  children: ContentNode[],
+  ctx: RenderContext,
+  key: string
+): React.ReactNode[] {
+  const paths = getChildPaths(ctx.path, children);
+  const specified = children.map((child, i) => getNodeStyles(child, ctx.styleMap, paths[i] ?? ctx.path));
+  return children.flatMap((child, i) => {
+    const childKey = `${key}-${i}`;
+    const flushLeft = i === 0 ? !!ctx.flushLeft : children[i - 1].type === 'scene-break';
+    const keepWithNext = specified[i].breakAfter === 'avoid' || specified[i + 1]?.breakBefore === 'avoid';
+    const childCtx: RenderContext = { ...ctx, flushLeft, keepWithNext, path: paths[i] ?? ctx.path, pageStart: i === 0 ? ctx.pageStart : undefined };
+
+    const pageBreak = strongestPageBreak(specified[i].breakBefore, specified[i - 1]?.breakAfter);
+    const rendered = renderNode(child, pageBreak ? { ...childCtx, pageStart: childCtx.pageStart ?? 'break' } : childCtx, childKey);
+    return pageBreak ? [...renderPageBreak(pageBreak, childCtx, childKey), rendered] : [rendered];
+  });
+}
+
+/**
+ * The forced page break to make where several are asked for: one to a
+ * side wins over one to the next page
+ */
+function strongestPageBreak(...values: unknown[]): PageBreak | undefined {
+  return (values.find((value) => value === 'left' || value === 'right') ?? values.find((value) => value === 'page')) as PageBreak | undefined;
+}
+
+/**
+ * Zero-height Views that start the next node on a new page. Notes never
+ * break, and where a page has just started nothing breaks, so no blank
+ * page is left. A break to a side records the page it lands on; in the
+ * next layout, a blank page goes before it if that page was on the wrong
+ * side. At a chapter opening the blank page goes before the chapter's
+ * Page, so it is keyed by chapter.
+ */
+function renderPageBreak(pageBreak: PageBreak, ctx: RenderContext, key: string): React.ReactElement[] {
+  const tracker = ctx.pageSides;
+  if (!tracker) return [];
+  if (pageBreak === 'page') {
+    return ctx.pageStart ? [] : [<View key={`${key}-break`} break />];
   }
 
-  if (node.children) {
-    for (const child of node.children) {
-      texts.push(...extractTextFromTree(child));
-    }
+  const breakKey = ctx.pageStart === 'chapter' ? tracker.chapterKey : key;
+  const marker = (
+    <View
+      key={`${key}-break`}
+      break={!ctx.pageStart}
+      render={({ pageNumber }) => {
+        // Called once per candidate page while laying out; the last call is the real page
+        tracker.landed.set(breakKey, { side: pageBreak, pageNumber });
+        return null;
+      }}
+    />
+  );
+  const withBlankPage = tracker.blankBefore.has(breakKey) && ctx.pageStart !== 'chapter';
+  return withBlankPage ? [<View key={`${key}-blank`} break />, marker] : [marker];
+}
+
+/**
+ * Breaks to a side that need a blank page before them: those whose page,
+ * moved on by the blank pages before it, is on the wrong side
+ */
+function findBlankPages(landed: Map<string, SideBreak>): Set<string> {
+  const blankBefore = new Set<string>();
+  const breaks = [...landed].sort(([, a], [, b]) => a.pageNumber - b.pageNumber);
+  for (const [breakKey, { side, pageNumber }] of breaks) {
+    const isRight = (pageNumber + blankBefore.size) % 2 === 1;
+    if (isRight !== (side === 'right')) blankBefore.add(breakKey);
   }
+  return blankBefore;
+}
 
-  return texts;
+/**
+ * Render a scene break as the chosen ornament. The EPUB's own styling of
+ * the break (hr borders, margins) is ignored so every break looks the same.
+ */
+function renderSceneBreak(node: ContentNode, ctx: RenderContext, key: string): React.ReactNode {
+  const image = ctx.sceneBreak === 'image' && node.src ? ctx.images.get(node.src) : undefined;
+
+  return (
+    <View key={key} style={styles.sceneBreak} wrap={false} minPresenceAhead={SCENE_BREAK_KEEP_WITH_NEXT}>
+      {image ? (
+        <PdfImage
+          src={{ data: Buffer.from(image.data), format: image.format }}
+          style={{ width: Math.min(image.width * 0.75, SCENE_BREAK_IMAGE_MAX_WIDTH) }}
+        />
+      ) : (
+        <Text style={styles.sceneBreakOrnament}>
+          {ctx.sceneBreak === 'glyph' ? SCENE_BREAK_GLYPH : SCENE_BREAK_ASTERISM}
+        </Text>
+      )}
+    </View>
+  );
 }
 
-// =============================================================================
-// BOOK DOCUMENT COMPONENT
-// =============================================================================
+/**
+ * Paths of a table's children for the CSS. Rows of a thead, tbody or tfoot
+ * sit below their section, which takes its place among the table's children.
+ */
+function getTableChildPaths(tablePath: ElementPath, children: ContentNode[]): (ElementPath | undefined)[] {
+  const tableChildren = [...new Set<StyledNode>(children.map((child) => child.section ?? child))];
+  const tablePaths = getChildPaths(tablePath, tableChildren);
+  const paths = new Map(tableChildren.map((node, i) => [node, tablePaths[i]]));
 
-const BookDocument = ({
-  chapters,
-  title,
-  author,
-  styleMap,
-}: {
-  chapters: Chapter[];
-  title: string;
-  author: string;
-  styleMap: StyleMap;
-}) => {
-  // Separate chapters by type
-  const titlePages = chapters.filter((ch) => ch.type === 'titlepage');
-  const frontMatter = chapters.filter((ch) => ch.type === 'frontmatter');
-  const storyChapters = chapters.filter((ch) => ch.type === 'chapter');
-  const backMatter = chapters.filter((ch) => ch.type === 'backmatter');
+  for (const section of new Set(children.map((child) => child.section))) {
+    if (!section) continue;
+    const rows = children.filter((row) => row.section === section);
+    getChildPaths(paths.get(section), rows).forEach((path, i) => paths.set(rows[i], path));
+  }
+  return children.map((child) => paths.get(child));
+}
+
+/**
+ * Render a table as flex rows. Header rows are `fixed` inside the table
+ * View, so react-pdf repeats them on every page the table breaks onto.
+ */
+function renderTable(
+  node: ContentNode,
+  cssStyles: PdfStyle,
+  ctx: RenderContext,
+  key: string
+): React.ReactNode {
+  const children = node.children || [];
+  const rows = children.filter(child => child.type === 'table-row');
+  const columnCount = Math.max(
+    1,
+    ...rows.map(row => (row.children || []).reduce((sum, cell) => sum + (cell.colSpan || 1), 0))
+  );
+  const cellCtx: RenderContext = { ...ctx, textStyle: styles.tableCellText, pageSides: undefined };
+  const rowPaths = getTableChildPaths(ctx.path, children);
+
+  // A section is not drawn: its rows inherit from it and take its background
+  const sectionStyles = new Map<TableSection, ReturnType<typeof computeStyle>>();
+  const getSectionStyle = (child: ContentNode, rowPath: ElementPath) => {
+    if (!child.section) return undefined;
+    if (!sectionStyles.has(child.section)) {
+      sectionStyles.set(child.section, computeStyle(getStylesForElement(ctx.styleMap, rowPath.parent!), ctx.parentStyle));
+    }
+    return sectionStyles.get(child.section);
+  };
 
   return (
-    <Document pageLayout="twoPageLeft">
-      {/* Title pages - proper KDP layout */}
-      {titlePages.map((chapter, idx) => {
-        const creditTexts = extractTextFromTree(chapter.content);
-        return (
-          <Page key={`title-${idx}`} size={KDP_6x9} style={styles.page}>
-            <View style={styles.titlePage}>
-              {/* Title in upper area with underline */}
-              <View style={styles.titlePageTitleSection}>
-                <Text style={styles.titlePageTitle}>{chapter.title}</Text>
-                <View style={styles.titlePageUnderline} />
-              </View>
+    <View key={key} style={[styles.table, cssStyles]} wrap={cssStyles.breakInside !== 'avoid'}>
+      {children.map((child, i) => {
+        const rowKey = `${key}-${i}`;
+        const rowPath = rowPaths[i] ?? ctx.path;
+        if (child.type !== 'table-row') {
+          return renderNode(child, { ...ctx, path: rowPath }, rowKey); // caption
+        }
 
-              {/* Author in middle */}
-              {chapter.author && (
-                <View style={styles.titlePageAuthorSection}>
-                  <Text style={styles.titlePageAuthor}>{chapter.author}</Text>
+        const section = getSectionStyle(child, rowPath);
+        const row = computeStyle(getStylesForElement(ctx.styleMap, rowPath), section?.content ?? ctx.parentStyle);
+        const cells = child.children || [];
+        const cellPaths = getChildPaths(rowPath, cells);
+        return (
+          <View
+            key={rowKey}
+            style={[styles.tableRow, { backgroundColor: section?.style.backgroundColor }, row.style]}
+            wrap={false}
+            fixed={child.isHeader}
+          >
+            {cells.map((cell, j) => {
+              const cellWidth = ((cell.colSpan || 1) / columnCount) * row.content.blockWidth;
+              const cellStyle = computeStyle(getStylesWithDefaults(ctx.styleMap, cellPaths[j]!), { ...row.content, blockWidth: cellWidth });
+              const contents = cell.children || [];
+              const contentPaths = getChildPaths(cellPaths[j], contents);
+              return (
+                <View
+                  key={`${rowKey}-${j}`}
+                  style={[
+                    styles.tableCell,
+                    cellStyle.style,
+                    { width: `${((cell.colSpan || 1) / columnCount) * 100}%` },
+                  ]}
+                >
+                  {contents.map((content, k) => renderNode(content, { ...cellCtx, parentStyle: cellStyle.content, path: contentPaths[k] ?? cellPaths[j]! }, `${rowKey}-${j}-${k}`))}
                 </View>
-              )}
-
-              {/* Credits at bottom */}
-              {creditTexts.length > 0 && (
-                <View style={styles.titlePageCreditsSection}>
-                  {creditTexts.map((text, lineIdx) => (
-                    <Text key={lineIdx} style={styles.titlePageCredits}>
-                      {text}
-                    </Text>
-                  ))}
-                </View>
-              )}
+              );
+            })}
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+// Default ul markers by nesting depth
+const UNORDERED_MARKER_TYPES = ['disc', 'circle', 'square'];
+
+/**
+ * Render a ul/ol with a hanging marker column per item.
+ * Marker type: li CSS > list CSS > type attribute > default for the list kind.
+ */
+function renderList(
+  node: ContentNode,
+  cssStyles: PdfStyle,
+  ctx: RenderContext,
+  key: string
+): React.ReactNode {
+  const list = node.list!;
+  const { listStyleType, ...listStyles } = cssStyles;
+  const listMarkerType: string =
+    listStyleType ?? list.markerType ??
+    (list.ordered ? 'decimal' : UNORDERED_MARKER_TYPES[ctx.listDepth % UNORDERED_MARKER_TYPES.length]);
+
+  const itemCtx: RenderContext = {
+    ...ctx,
+    listDepth: ctx.listDepth + 1,
+    parentStyle: { ...ctx.parentStyle, blockWidth: ctx.parentStyle.blockWidth - styles.listMarker.width },
+    pageSides: undefined,
+  };
+  const step = list.reversed ? -1 : 1;
+  let counter = list.start;
+  const items = node.children || [];
+  const itemPaths = getChildPaths(ctx.path, items);
+
+  return (
+    <View key={key} style={[styles.list, listStyles]} wrap={cssStyles.breakInside !== 'avoid'}>
+      {items.map((child, i) => {
+        const itemKey = `${key}-${i}`;
+        const itemPath = itemPaths[i] ?? ctx.path;
+
+        // Stray content directly inside ul/ol - indent it without a marker
+        if (child.tagName !== 'li') {
+          return (
+            <View key={itemKey} style={styles.listItem}>
+              <View style={styles.listMarker} />
+              <View style={styles.listItemBody}>{renderNode(child, { ...itemCtx, path: itemPath }, `${itemKey}-body`)}</View>
             </View>
-          </Page>
+          );
+        }
+
+        const value = parseInt(child.attributes.value, 10);
+        if (!isNaN(value)) counter = value;
+
+        const itemMarkerType = getStylesForElement(ctx.styleMap, itemPath).listStyleType ?? listMarkerType;
+        const marker = formatListMarker(itemMarkerType, counter);
+        counter += step;
+
+        return (
+          <View key={itemKey} style={styles.listItem}>
+            <Text style={styles.listMarker}>{marker}</Text>
+            <View style={styles.listItemBody}>{renderNode(child, { ...itemCtx, path: itemPath }, `${itemKey}-body`)}</View>
+          </View>
         );
       })}
+    </View>
+  );
+}
 
-      {/* Front matter - NO headers */}
-      {frontMatter.length > 0 && (
-        <Page size={KDP_6x9} style={styles.page} wrap>
-          <Text
-            style={styles.pageNumber}
-            render={({ pageNumber, totalPages }) => `${pageNumber} / ${totalPages}`}
-            fixed
-          />
-          {frontMatter.map((chapter, chapterIndex) => (
-            <View key={chapterIndex} break={chapterIndex > 0}>
-              <Text style={styles.chapterTitle}>{chapter.title}</Text>
-              {renderNode(chapter.content, styleMap, `fm-${chapterIndex}`)}
+/**
+ * Format a list marker for a CSS list-style-type
+ */
+function formatListMarker(markerType: string, counter: number): string {
+  switch (markerType) {
+    case 'none':
+      return '';
+    case 'disc':
+      return '•';
+    case 'circle':
+      return '◦';
+    case 'square':
+      return '■';
+    case 'decimal-leading-zero':
+      return `${String(counter).padStart(2, '0')}.`;
+    case 'lower-alpha':
+    case 'lower-latin':
+      return `${toAlphabetic(counter)}.`;
+    case 'upper-alpha':
+    case 'upper-latin':
+      return `${toAlphabetic(counter).toUpperCase()}.`;
+    case 'lower-roman':
+      return `${toRoman(counter).toLowerCase()}.`;
+    case 'upper-roman':
+      return `${toRoman(counter)}.`;
+    default:
+      return `${counter}.`;
+  }
+}
+
+/**
+ * 1 -> a, 26 -> z, 27 -> aa
+ */
+function toAlphabetic(n: number): string {
+  if (n < 1) return String(n);
+  let result = '';
+  while (n > 0) {
+    n--;
+    result = String.fromCharCode(97 + (n % 26)) + result;
+    n = Math.floor(n / 26);
+  }
+  return result;
+}
+
+/**
+ * 1 -> I, 4 -> IV, 1999 -> MCMXCIX
+ */
+function toRoman(n: number): string {
+  if (n < 1 || n > 3999) return String(n);
+  const numerals: [number, string][] = [
+    [1000, 'M'], [900, 'CM'], [500, 'D'], [400, 'CD'], [100, 'C'], [90, 'XC'],
+    [50, 'L'], [40, 'XL'], [10, 'X'], [9, 'IX'], [5, 'V'], [4, 'IV'], [1, 'I'],
+  ];
+  let result = '';
+  for (const [value, numeral] of numerals) {
+    while (n >= value) {
+      result += numeral;
+      n -= value;
+    }
+  }
+  return result;
+}
+
+/**
+ * DEFAULT_STYLES only defines h1-h4; h5/h6 get the h4 look
+ */
+function headingDefaultsTag(level: number = 4): string {
+  return `h${Math.min(level, 4)}`;
+}
+
+/**
+ * Render an image node scaled to the text block.
+ * Natural size is the pixel size at 96dpi; CSS width/max-width can shrink
+ * or (up to the text block) enlarge it.
+ */
+function renderImage(
+  node: ContentNode,
+  cssStyles: PdfStyle,
+  ctx: RenderContext,
+  key: string
+): React.ReactNode {
+  const image = node.src ? ctx.images.get(node.src) : undefined;
+  if (!image) return null;
+
+  // Height always follows the aspect ratio
+  const { width: cssWidth, maxWidth: cssMaxWidth, ...otherStyles } = cssStyles;
+  delete otherStyles.height;
+
+  // Percentages are already computed against the containing block
+  const { blockWidth } = ctx.parentStyle;
+  const naturalWidth = image.width * 0.75;
+  const requestedWidth = typeof cssWidth === 'number' ? cssWidth : naturalWidth;
+  const maxWidth = typeof cssMaxWidth === 'number' ? cssMaxWidth : blockWidth;
+  // A tall image (a plate, a cover) is narrowed until it fits the page's height too
+  const heightLimit = ctx.blockHeight - 2 * (styles.image.marginVertical as number);
+  const widthForHeight = image.height > 0 ? Math.max(0, heightLimit) * (image.width / image.height) : blockWidth;
+  const width = Math.min(requestedWidth, maxWidth, blockWidth, widthForHeight);
+
+  return (
+    <PdfImage
+      key={key}
+      src={{ data: Buffer.from(image.data), format: image.format }}
+      style={[styles.image, otherStyles, { width }]}
+    />
+  );
+}
+
+/**
+ * Render the runs of a text node or inline element, each matched against
+ * the CSS as a child of the element at ctx.path
+ */
+function renderRuns(runs: InlineRun[], ctx: RenderContext, keyPrefix: string): React.ReactNode[] {
+  const paths = getChildPaths(ctx.path, runs);
+  return runs.map((run, i) => renderRun(run, { ...ctx, path: paths[i] ?? ctx.path }, `${keyPrefix}${i}`));
+}
+
+/**
+ * Render an inline run as a nested Text, styled by the CSS rules matching it
+ */
+function renderRun(run: InlineRun, ctx: RenderContext, key: string): React.ReactNode {
+  if (run.tagName === '#text') {
+    return renderText(run.text || '', ctx, key);
+  }
+
+  // Note reference - the EPUB's own marker is replaced by the chapter's numbering
+  const noteNumber = run.noteRef ? ctx.noteNumbers.get(run.noteRef) : undefined;
+  if (noteNumber !== undefined) {
+    return (
+      <Text key={key} style={styles.noteRef}>
+        {String(noteNumber)}
+      </Text>
+    );
+  }
+
+  // Links into the book jump to their target if it is printed; web links open the address
+  const { style: runStyles, content } = computeStyle(getStylesWithDefaults(ctx.styleMap, ctx.path), ctx.parentStyle);
+  const childCtx: RenderContext = { ...ctx, parentStyle: content };
+  const linkSrc = run.url ?? (run.target && ctx.linkTargets.has(run.target) ? `#${run.target}` : undefined);
+  if (linkSrc) {
+    return (
+      <Link key={key} src={linkSrc} style={[styles.link, runStyles]}>
+        {renderRuns(run.children || [], childCtx, `${key}-`)}
+      </Link>
+    );
+  }
+
+  return (
+    <Text key={key} style={runStyles}>
+      {renderRuns(run.children || [], childCtx, `${key}-`)}
+    </Text>
+  );
+}
+
+/**
+ * Render plain text, drawing small caps if they are on: react-pdf has no
+ * font-variant, so lower-case letters (every letter for all-small-caps)
+ * are set as smaller capitals
+ */
+function renderText(text: string, ctx: RenderContext, key: string): React.ReactNode {
+  const { fontVariant, fontSize } = ctx.parentStyle.inherited;
+  if (fontVariant !== 'small-caps' && fontVariant !== 'all-small-caps') return text;
+
+  // Split into runs of letters drawn small and everything else
+  const all = fontVariant === 'all-small-caps';
+  const isSmall = (char: string) => char !== char.toUpperCase() || (all && char !== char.toLowerCase());
+  const parts: { text: string; small: boolean }[] = [];
+  for (const char of text) {
+    const small = isSmall(char);
+    const last = parts[parts.length - 1];
+    if (last && last.small === small) last.text += char;
+    else parts.push({ text: char, small });
+  }
+
+  return parts.map((part, i) =>
+    part.small ? (
+      <Text key={`${key}-${i}`} style={{ fontSize: fontSize * SMALL_CAPS_SCALE }}>
+        {part.text.toUpperCase()}
+      </Text>
+    ) : (
+      part.text
+    )
+  );
+}
+
+/**
+ * Extract text from a ContentNode tree (for title page credits)
+ */
+function extractTextFromTree(node: ContentNode): string[] {
+  const texts: string[] = [];
+
+  if ((node.type === 'text' || node.type === 'heading') && node.text) {
+    texts.push(node.text);
+  }
+
+  if (node.children) {
+    for (const child of node.children) {
+      texts.push(...extractTextFromTree(child));
+    }
+  }
+
+  return texts;
+}
+
+/**
+ * Collect the style="" styles of a tree's nodes and runs (for font resolution)
+ */
+function collectInlineStyles(node: ContentNode): Record<string, unknown>[] {
+  const inlineStyles: Record<string, unknown>[] = node.style ? [node.style] : [];
+
+  const collectRuns = (runs: InlineRun[]) => {
+    for (const run of runs) {
+      if (run.style) inlineStyles.push(run.style);
+      if (run.children) collectRuns(run.children);
+    }
+  };
+  if (node.runs) collectRuns(node.runs);
+
+  if (node.children) {
+    for (const child of node.children) {
+      inlineStyles.push(...collectInlineStyles(child));
+    }
+  }
+
+  return inlineStyles;
+}
+
+// =============================================================================
+// TYPOGRAPHY
+// =============================================================================
+
+/**
+ * Smart typography over the text, chapter headings and notes of the book
+ */
+function applyBookTypography(
+  chapters: Chapter[],
+  notes: Map<string, Note>,
+  options: TypographyOption[],
+  language: string | undefined
+): void {
+  if (options.length === 0) return;
+
+  for (const chapter of chapters) {
+    applyTypography(chapter.content, options, language);
+    chapter.title = applyTypographyToText(chapter.title, options, language);
+    for (const field of ['label', 'title', 'subtitle'] as const) {
+      const text = chapter.heading[field];
+      if (text) chapter.heading[field] = applyTypographyToText(text, options, language);
+    }
+  }
+  for (const note of notes.values()) {
+    applyTypography(note.content, options, language);
+  }
+}
+
+// =============================================================================
+// LINKS
+// =============================================================================
+
+/**
+ * Internal link targets that land on a printed page: targets of links in the
+ * chapters that are also destinations in them (title pages print no text of
+ * their own, so nothing there can be jumped to)
+ */
+function collectLinkTargets(chapters: Chapter[]): Set<string> {
+  const destinations = new Set<string>();
+  const targets = new Set<string>();
+
+  const visitRuns = (runs: InlineRun[]) => {
+    for (const run of runs) {
+      if (run.target) targets.add(run.target);
+      if (run.children) visitRuns(run.children);
+    }
+  };
+  const visit = (node: ContentNode) => {
+    node.anchors?.forEach((anchor) => destinations.add(anchor));
+    if (node.runs) visitRuns(node.runs);
+    node.children?.forEach(visit);
+  };
+  chapters.filter((ch) => ch.type !== 'titlepage').forEach((ch) => visit(ch.content));
+
+  return new Set([...targets].filter((target) => destinations.has(target)));
+}
+
+/**
+ * Zero-height Views named after the link targets among a node's anchors
+ */
+function renderLinkDestinations(anchors: string[] | undefined, ctx: RenderContext, key: string): React.ReactElement[] {
+  return (anchors || [])
+    .filter((anchor) => ctx.linkTargets.has(anchor))
+    .map((anchor, i) => <View key={`${key}-at${i}`} id={anchor} minPresenceAhead={LINK_TARGET_PRESENCE_AHEAD} />);
+}
+
+/**
+ * Print the address of each web link for readers of the paper edition:
+ * in brackets after the link text, or as a note numbered with the chapter's
+ * notes. Links whose text already is the address are left alone.
+ */
+function addLinkUrls(chapters: Chapter[], notes: Map<string, Note>, linkUrls: LinkUrlStyle): void {
+  if (linkUrls === 'none') return;
+
+  const runText = (run: InlineRun): string => run.text ?? (run.children || []).map(runText).join('');
+  const stripScheme = (url: string) => url.replace(/^(https?:\/\/|mailto:)/i, '').replace(/\/$/, '');
+
+  const addToRuns = (runs: InlineRun[], styleMap: StyleMap): InlineRun[] =>
+    runs.flatMap((run) => {
+      const current = run.children ? { ...run, children: addToRuns(run.children, styleMap) } : run;
+      if (!run.url || stripScheme(runText(run).trim()) === stripScheme(run.url)) return [current];
+
+      if (linkUrls === 'brackets') {
+        return [current, { tagName: '#text', classNames: [], attributes: {}, text: ` [${stripScheme(run.url)}]` }];
+      }
+
+      // The address becomes a note of its own, referenced right after the link
+      if (!notes.has(run.url)) {
+        const urlRun: InlineRun = { tagName: 'a', classNames: [], attributes: {}, url: run.url, children: [
+          { tagName: '#text', classNames: [], attributes: {}, text: stripScheme(run.url) },
+        ] };
+        notes.set(run.url, {
+          id: run.url,
+          kind: 'footnote',
+          content: { type: 'text', tagName: 'p', classNames: [], attributes: {}, text: stripScheme(run.url), runs: [urlRun] },
+          styleMap,
+        });
+      }
+      return [current, { tagName: '#note-ref', classNames: [], attributes: {}, noteRef: run.url, children: [] }];
+    });
+
+  const visit = (node: ContentNode, styleMap: StyleMap) => {
+    if (node.runs) node.runs = addToRuns(node.runs, styleMap);
+    node.children?.forEach((child) => visit(child, styleMap));
+  };
+  chapters.forEach((ch) => visit(ch.content, ch.styleMap));
+}
+
+// =============================================================================
+// NOTES
+// =============================================================================
+
+/**
+ * Number a chapter's notes 1, 2, 3... in the order they are first referenced
+ */
+function numberNotes(node: ContentNode, notes: Map<string, Note>): Map<string, number> {
+  const numbers = new Map<string, number>();
+  const visit = (current: ContentNode) => {
+    for (const { noteId } of findNoteRefs(current.runs || [])) {
+      if (notes.has(noteId) && !numbers.has(noteId)) numbers.set(noteId, numbers.size + 1);
+    }
+    current.children?.forEach(visit);
+  };
+  visit(node);
+  return numbers;
+}
+
+/**
+ * Note references in a text node's runs, with their character offset
+ */
+function findNoteRefs(runs: InlineRun[]): { noteId: string; offset: number }[] {
+  const refs: { noteId: string; offset: number }[] = [];
+  let offset = 0;
+  const visit = (list: InlineRun[]) => {
+    for (const run of list) {
+      if (run.noteRef) refs.push({ noteId: run.noteRef, offset });
+      if (run.text !== undefined) offset += run.text.length;
+      if (run.children) visit(run.children);
+    }
+  };
+  visit(runs);
+  return refs;
+}
+
+/**
+ * Add zero-height marker Views before and after a text node with footnote
+ * references, which record the pages the text starts and ends on. Which
+ * of those pages a reference falls on is read from the layout afterwards.
+ */
+function withFootnoteMarkers(
+  node: ContentNode,
+  ctx: RenderContext,
+  key: string,
+  element: React.ReactElement
+): React.ReactNode {
+  const tracker = ctx.footnotes;
+  if (!tracker || !node.runs) return element;
+
+  const refs = findNoteRefs(node.runs).filter(ref => ctx.noteNumbers.has(ref.noteId));
+  if (refs.length === 0) return element;
+
+  const textLength = node.text?.length ?? 0;
+  const occurrences = refs.map((_, i) => `${key}-fn${i}`);
+  const numbers = refs.map(({ noteId }) => String(ctx.noteNumbers.get(noteId)));
+  const renderMarker = (edge: FootnoteMarker['edge']) => {
+    // Called once per candidate page while laying out; the last call is the real page
+    const render = ({ pageNumber }: { pageNumber: number }) => {
+      refs.forEach(({ noteId, offset }, i) => {
+        const placement = tracker.placements.get(occurrences[i])
+          ?? { noteId, chapterKey: tracker.chapterKey, offset, textLength, startPage: pageNumber, endPage: pageNumber };
+        tracker.placements.set(occurrences[i], { ...placement, [edge === 'start' ? 'startPage' : 'endPage']: pageNumber });
+      });
+      return null;
+    };
+    tracker.markerRenders.set(render, { textKey: key, chapterKey: tracker.chapterKey, occurrences, numbers, edge });
+    return <View key={`${key}-fn-${edge}`} render={render} />;
+  };
+
+  return [renderMarker('start'), element, renderMarker('end')];
+}
+
+/**
+ * Page a footnote reference is on: where it fell in the last layout,
+ * counted from the page its text starts on. Before there is a layout to
+ * read, a reference in the first half of the text is taken to be on the
+ * page the text starts on, a later one on the page it ends on.
+ */
+function getReferencePage(placement: FootnotePlacement, pagesIn: number | undefined): number {
+  if (pagesIn !== undefined) return Math.min(placement.startPage + pagesIn, placement.endPage);
+  return placement.offset < placement.textLength / 2 ? placement.startPage : placement.endPage;
+}
+
+/**
+ * Notes first referenced on a page of a chapter, in number order
+ */
+function footnotesOnPage(
+  tracker: FootnoteTracker,
+  pageNumber: number,
+  noteNumbers: Map<string, number>
+): string[] {
+  return [...getFirstReferencePages(tracker, occurrence => tracker.referencePages.get(occurrence))]
+    .filter(([, page]) => page === pageNumber)
+    .map(([noteId]) => noteId)
+    .sort((a, b) => (noteNumbers.get(a) ?? 0) - (noteNumbers.get(b) ?? 0));
+}
+
+/**
+ * Page of the first reference to each note of a chapter, with the page of
+ * each reference counted from the first page of its text
+ */
+function getFirstReferencePages(
+  tracker: FootnoteTracker,
+  getPagesIn: (occurrence: string) => number | undefined
+): Map<string, number> {
+  const firstPages = new Map<string, number>();
+  for (const [occurrence, placement] of tracker.placements) {
+    if (placement.chapterKey !== tracker.chapterKey) continue;
+    const page = getReferencePage(placement, getPagesIn(occurrence));
+    const firstPage = firstPages.get(placement.noteId);
+    if (firstPage === undefined || page < firstPage) firstPages.set(placement.noteId, page);
+  }
+  return firstPages;
+}
+
+/**
+ * Render notes as a numbered list with the number hanging in the margin
+ */
+function renderNoteList(
+  noteIds: string[],
+  notes: Map<string, Note>,
+  ctx: Omit<RenderContext, 'path'>,
+  key: string
+): React.ReactNode {
+  const noteCtx = {
+    ...ctx,
+    listDepth: 0,
+    textStyle: styles.noteText,
+    parentStyle: { ...ctx.parentStyle, blockWidth: ctx.parentStyle.blockWidth - styles.noteNumber.width },
+    footnotes: undefined,
+    pageSides: undefined,
+    pageStart: undefined,
+  };
+
+  return (
+    <View key={key}>
+      {noteIds.map((noteId, i) => {
+        const note = notes.get(noteId);
+        if (!note) return null;
+        return (
+          <View key={`${key}-${i}`} style={styles.noteEntry} wrap={false}>
+            <Text style={styles.noteNumber}>{`${ctx.noteNumbers.get(noteId)}.`}</Text>
+            <View style={styles.listItemBody}>
+              {renderNode(note.content, documentContext({ ...noteCtx, styleMap: note.styleMap }, note.content), `${key}-${i}-body`)}
             </View>
-          ))}
-        </Page>
-      )}
+          </View>
+        );
+      })}
+    </View>
+  );
+}
 
-      {/* Story chapters - WITH headers */}
-      {storyChapters.length > 0 && (
-        <Page size={KDP_6x9} style={styles.page} wrap>
+/**
+ * Footnote area fixed to the foot of every page of a chapter; each page
+ * lists the notes whose references the markers placed on it. Its render
+ * callback is recorded, so the area can be found in the laid-out book.
+ */
+function renderFootnoteArea(
+  tracker: FootnoteTracker,
+  notes: Map<string, Note>,
+  ctx: RenderContext,
+  geometry: PageGeometry,
+  areaRenders: Map<unknown, string>
+): React.ReactNode {
+  const { margins } = geometry;
+  const render = ({ pageNumber }: { pageNumber: number }) => {
+    const noteIds = footnotesOnPage(tracker, pageNumber, ctx.noteNumbers);
+    if (noteIds.length === 0) return null;
+    return (
+      <View>
+        <View style={styles.footnoteRule} />
+        {renderNoteList(noteIds, notes, { ...ctx, parentStyle: getInitialStyle(FOOTNOTE_FONT_SIZE, geometry.textWidth) }, `fn-${pageNumber}`)}
+      </View>
+    );
+  };
+  areaRenders.set(render, tracker.chapterKey);
+
+  return (
+    <View
+      style={[styles.footnoteArea, { bottom: margins.bottom, left: margins.inside, right: margins.outside }]}
+      fixed
+      render={render}
+    />
+  );
+}
+
+/**
+ * Record how tall each page's footnote area came out, from the layout
+ * react-pdf hands to Document onRender
+ */
+function measureFootnoteAreas(
+  layout: LayoutNode | undefined,
+  areaRenders: Map<unknown, string>,
+  footnoteAreas: Map<string, FootnoteArea>
+): void {
+  layout?.children?.forEach((page, pageIndex) => {
+    for (const node of page.children ?? []) {
+      const chapterKey = areaRenders.get(node.props?.render);
+      const area = chapterKey === undefined ? undefined : footnoteAreas.get(chapterKey);
+      if (area && node.box && node.box.height > 0) area.heights.set(pageIndex + 1, node.box.height);
+    }
+  });
+}
+
+/**
+ * Record which page each footnote reference fell on, from the layout
+ * react-pdf hands to Document onRender: the note numbers of a text set on
+ * the pages of the markers before and after it tell which of its references
+ * are on those pages. Notes printed on another page than their first
+ * reference's are recorded as misplaced.
+ */
+function measureFootnoteReferences(
+  layout: LayoutNode | undefined,
+  markerRenders: Map<unknown, FootnoteMarker>,
+  trackers: FootnoteTracker[],
+  footnoteAreas: Map<string, FootnoteArea>
+): void {
+  // Pages each marked text starts and ends on, and how many of its references are set there
+  const texts = new Map<string, { marker: FootnoteMarker; start?: TextEdge; end?: TextEdge }>();
+  const visit = (nodes: LayoutNode[], pageNumber: number) => {
+    nodes.forEach((node, i) => {
+      const marker = markerRenders.get(node.props?.render);
+      if (marker) {
+        const step = marker.edge === 'start' ? 1 : -1;
+        let j = i + step;
+        while (markerRenders.has(nodes[j]?.props?.render)) j += step;
+        // A marker left at the foot of a page without its text has none of it there
+        const text = nodes[j]?.props?.fixed ? undefined : nodes[j];
+        const printed = text ? findNoteReferenceRuns(text) : [];
+        const references = marker.edge === 'start'
+          ? countInOrder(printed, marker.numbers)
+          : countInOrder(printed.reverse(), [...marker.numbers].reverse());
+        const entry = texts.get(marker.textKey) ?? { marker };
+        entry[marker.edge] = { pageNumber, references };
+        texts.set(marker.textKey, entry);
+      }
+      visit(node.children ?? [], pageNumber);
+    });
+  };
+  layout?.children?.forEach((page, pageIndex) => visit(page.children ?? [], pageIndex + 1));
+
+  for (const { marker, start, end } of texts.values()) {
+    const area = footnoteAreas.get(marker.chapterKey);
+    if (!area || !start || !end) continue;
+    marker.occurrences.forEach((occurrence, i) => {
+      const page = findReferencePage(i, marker.occurrences.length, start, end);
+      if (page !== undefined) area.referencePages.set(occurrence, page - start.pageNumber);
+    });
+  }
+
+  for (const tracker of trackers) {
+    const area = footnoteAreas.get(tracker.chapterKey);
+    if (!area) continue;
+    const printedPages = getFirstReferencePages(tracker, occurrence => tracker.referencePages.get(occurrence));
+    const referencePages = getFirstReferencePages(tracker, occurrence => area.referencePages.get(occurrence));
+    for (const [noteId, pageNumber] of printedPages) {
+      const referencePage = referencePages.get(noteId);
+      if (referencePage === undefined || referencePage === pageNumber) continue;
+      area.misplaced.push({ noteNumber: tracker.noteNumbers.get(noteId) ?? 0, pageNumber, referencePage });
+    }
+  }
+}
+
+/**
+ * Superscript runs set in a laid-out node, in order - note reference
+ * numbers among them
+ */
+function findNoteReferenceRuns(node: LayoutNode): string[] {
+  if (node.lines) {
+    return node.lines.flatMap(line => line.runs
+      .filter(run => run.attributes.verticalAlign === 'super')
+      .map(run => line.string.slice(run.start, run.end)));
+  }
+  return (node.children ?? []).flatMap(findNoteReferenceRuns);
+}
+
+/**
+ * How many of the expected strings are found in order in a list
+ */
+function countInOrder(found: string[], expected: string[]): number {
+  let count = 0;
+  for (const text of found) {
+    if (text === expected[count]) count++;
+  }
+  return count;
+}
+
+/**
+ * Page the reference at an index of a text's references falls on, from how
+ * many of them are set on the text's first and last pages. Pages between
+ * are full of the text, so the rest is spread evenly over them. Undefined
+ * if the reference was not found in the layout.
+ */
+function findReferencePage(index: number, count: number, start: TextEdge, end: TextEdge): number | undefined {
+  if (index < start.references || end.pageNumber === start.pageNumber) return start.pageNumber;
+  if (index >= count - end.references) return end.pageNumber;
+
+  const pagesBetween = end.pageNumber - start.pageNumber - 1;
+  if (pagesBetween === 0) return undefined;
+  const between = count - start.references - end.references;
+  return start.pageNumber + 1 + Math.floor(((index - start.references) * pagesBetween) / between);
+}
+
+/**
+ * Room to keep at the foot of each chapter's pages: the tallest footnote
+ * area the last render gave any of them, and never less than it kept before.
+ * react-pdf pads every page of a Page element alike, so the room cannot
+ * follow each page's notes: pages with fewer notes than the fullest one
+ * print with space to spare above them.
+ */
+function getFootnoteReserves(
+  footnoteAreas: Map<string, FootnoteArea>,
+  pageGeometries: Map<string, PageGeometry>,
+  previous: Map<string, number>
+): Map<string, number> {
+  const reserves = new Map(previous);
+  for (const [chapterKey, { heights }] of footnoteAreas) {
+    const geometry = pageGeometries.get(chapterKey);
+    if (!geometry || heights.size === 0) continue;
+    const maxReserve = geometry.textHeight * MAX_FOOTNOTE_SHARE;
+    const needed = Math.min(maxReserve, Math.max(...heights.values()) + FOOTNOTE_RULE_SPACE);
+    reserves.set(chapterKey, Math.max(reserves.get(chapterKey) ?? 0, needed));
+  }
+  return reserves;
+}
+
+/**
+ * Pages whose notes came out taller than the room their chapter kept -
+ * references that moved in the second layout, or notes too long for a page
+ */
+function findFootnoteOverflows(
+  footnoteAreas: Map<string, FootnoteArea>,
+  footnoteReserves: Map<string, number>
+): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  for (const [chapterKey, { source, heights }] of footnoteAreas) {
+    const reserve = footnoteReserves.get(chapterKey) ?? 0;
+    for (const [pageNumber, height] of heights) {
+      const overflow = height + FOOTNOTE_RULE_SPACE - reserve;
+      if (overflow < 0.5) continue;
+      diagnostics.push({
+        severity: 'warning',
+        source,
+        message: `Footnotes on page ${pageNumber} need ${Math.ceil(overflow)}pt more than the room kept for them - they print over the text`,
+      });
+    }
+  }
+  return diagnostics;
+}
+
+/**
+ * Notes the last layout printed on another page than their reference -
+ * references the room kept for notes moved in the last pass
+ */
+function findMisplacedFootnotes(footnoteAreas: Map<string, FootnoteArea>): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  for (const { source, misplaced } of footnoteAreas.values()) {
+    for (const { noteNumber, pageNumber, referencePage } of misplaced) {
+      diagnostics.push({
+        severity: 'warning',
+        source,
+        message: `Footnote ${noteNumber} prints on page ${pageNumber}, but its reference is on page ${referencePage}`,
+      });
+    }
+  }
+  return diagnostics;
+}
+
+/**
+ * Page each footnote reference of the book fell on in the last layout,
+ * counted from the first page of its text
+ */
+function getReferencePages(footnoteAreas: Map<string, FootnoteArea>): Map<string, number> {
+  return new Map([...footnoteAreas.values()].flatMap((area) => [...area.referencePages]));
+}
+
+// =============================================================================
+// PAGE GEOMETRY
+// =============================================================================
+
+// Size and margins of the pages of a Page element, in pt
+interface PageGeometry {
+  size: { width: number; height: number };
+  margins: { top: number; bottom: number; inside: number; outside: number };  // a right-hand page's
+  firstPageTop: number;  // top margin of the Page's first page
+  textWidth: number;     // width of the text block - images are scaled to fit it
+  textHeight: number;
+  // Left margin of each kind of page. Pages are laid out with the right-hand
+  // page's margins, then moved to these by shifting their MediaBox.
+  leftMargins: Record<PageKind, number>;
+  unmatched: string[];   // @page selectors whose margins give another size of text block
+}
+
+type PageKind = 'left' | 'right' | 'firstLeft' | 'firstRight';
+
+// Page of the rendered PDF: the geometry it was set with, and whether it
+// is the first page of its Page element
+interface PageLayout {
+  geometry: PageGeometry;
+  first: boolean;
+}
+
+// Trim size of a book's pages, in pt
+type TrimSize = PageGeometry['size'];
+
+/**
+ * Trim size of the book: the @page size of its first document that sets
+ * one, else KDP 6x9. The print stylesheet comes after every document's
+ * CSS, so its size wins over the book's own.
+ */
+function getTrimSize(chapters: Chapter[]): TrimSize {
+  for (const chapter of chapters) {
+    const { size } = getPageBox(chapter.styleMap, { side: 'right', first: false });
+    if (size) return size;
+  }
+  return KDP_6x9;
+}
+
+/**
+ * Documents whose own @page size differs from the book's trim size, which
+ * every page is printed at
+ */
+function findOtherTrimSizes(chapters: Chapter[], trimSize: TrimSize): Diagnostic[] {
+  return chapters.flatMap((chapter) => {
+    const { size } = getPageBox(chapter.styleMap, { side: 'right', first: false });
+    if (!size || (size.width === trimSize.width && size.height === trimSize.height)) return [];
+    return [{
+      severity: 'warning' as const,
+      source: chapter.path,
+      message: `@page size ${size.width}x${size.height}pt differs from the book's trim size ${trimSize.width}x${trimSize.height}pt - its pages are printed at the book's`,
+    }];
+  });
+}
+
+/**
+ * Margins from the @page rules of a document's CSS, over the KDP
+ * defaults, on pages of the book's trim size. react-pdf sets every page of a Page with one padding,
+ * the right-hand page's. A left page or first page with other side margins
+ * is moved to them after rendering; its text block keeps the right-hand
+ * page's size, and of the first page's top and bottom only the top is
+ * used, as space above the opening. That first page is the book's first,
+ * or with a page name, the first page of each chapter set on it.
+ */
+function getPageGeometry(
+  size: TrimSize,
+  styleMap: StyleMap | undefined,
+  name: string | undefined,
+  isFirst: boolean
+): PageGeometry {
+  const getMargins = (side: 'left' | 'right', first: boolean) => {
+    const box = styleMap ? getPageBox(styleMap, { name, side, first: first && isFirst, firstOfName: first && name !== undefined }) : {};
+    return {
+      top: box.marginTop ?? PAGE_MARGINS.top,
+      bottom: box.marginBottom ?? PAGE_MARGINS.bottom,
+      left: box.marginLeft ?? PAGE_MARGINS.inside,
+      right: box.marginRight ?? PAGE_MARGINS.outside,
+    };
+  };
+  const right = getMargins('right', false);
+  const left = getMargins('left', false);
+  const firstRight = getMargins('right', true);
+  const firstLeft = getMargins('left', true);
+
+  const textWidth = Math.max(0, size.width - right.left - right.right);
+  const textHeight = Math.max(0, size.height - right.top - right.bottom);
+  // Lengths converted from mm or in are compared to a hundredth of a point
+  const same = (a: number, b: number) => Math.abs(a - b) < 0.01;
+  const sameBlock = (page: typeof right, base: typeof right, keepsTop: boolean) =>
+    same(page.left + page.right, base.left + base.right) && same(page.bottom, base.bottom) && (!keepsTop || same(page.top, base.top));
+  // A first page is only at fault when its own rules change the block
+  const firstFits = (first: typeof right, base: typeof right) => sameBlock(first, right, false) || sameBlock(first, base, false);
+  const unmatched = [
+    !sameBlock(left, right, true) && '@page :left',
+    !(firstFits(firstRight, right) && firstFits(firstLeft, left)) && '@page :first',
+  ].filter((selector): selector is string => !!selector);
+
+  return {
+    size,
+    margins: { top: right.top, bottom: right.bottom, inside: right.left, outside: right.right },
+    firstPageTop: firstRight.top,
+    textWidth,
+    textHeight,
+    leftMargins: { left: left.left, right: right.left, firstLeft: firstLeft.left, firstRight: firstRight.left },
+    unmatched,
+  };
+}
+
+/**
+ * How far a page of the PDF is moved left to bring its text block, laid
+ * out at the right-hand page's inside margin, to its own side's margin.
+ * Left pages are the even ones.
+ */
+function getPageShift({ geometry, first }: PageLayout, pageNumber: number): number {
+  const side = pageNumber % 2 === 0 ? 'left' : 'right';
+  const kind: PageKind = first ? (side === 'left' ? 'firstLeft' : 'firstRight') : side;
+  return geometry.margins.inside - geometry.leftMargins[kind];
+}
+
+/**
+ * Record the geometry each page of a Page is set with, for moving the
+ * pages to their margins once the PDF is rendered
+ */
+function renderPageRecorder(geometry: PageGeometry, pageLayouts: Map<number, PageLayout>): React.ReactNode {
+  return (
+    <View
+      style={styles.pageRecorder}
+      fixed
+      render={({ pageNumber, subPageNumber }) => {
+        pageLayouts.set(pageNumber, { geometry, first: subPageNumber === 1 });
+        return null;
+      }}
+    />
+  );
+}
+
+/**
+ * Page number, centered on the page as it is printed: the text is offset
+ * to make up for the page's shift
+ */
+function renderPageNumber(geometry: PageGeometry): React.ReactNode {
+  return (
+    <View
+      style={[styles.pageNumber, { bottom: geometry.margins.bottom / 2 }]}
+      fixed
+      render={({ pageNumber, subPageNumber }) => {
+        const shift = getPageShift({ geometry, first: subPageNumber === 1 }, pageNumber);
+        return (
           <Text
-            style={styles.pageNumber}
-            render={({ pageNumber, totalPages }) => `${pageNumber} / ${totalPages}`}
-            fixed
+            style={{ paddingLeft: Math.max(0, 2 * shift), paddingRight: Math.max(0, -2 * shift) }}
+            render={({ totalPages }) => `${pageNumber} / ${totalPages}`}
           />
-          {/* Running header: author on left (even) pages, title on right (odd) pages */}
+        );
+      }}
+    />
+  );
+}
+
+/**
+ * Move each page of the rendered PDF to its side's margins by shifting its
+ * MediaBox, which carries the text, running heads and links alike
+ */
+async function placePages(pdf: Uint8Array, pageLayouts: Map<number, PageLayout>): Promise<Uint8Array> {
+  const shifts = [...pageLayouts]
+    .map(([pageNumber, layout]) => [pageNumber, getPageShift(layout, pageNumber)] as const)
+    .filter(([, shift]) => Math.abs(shift) >= 0.01);
+  if (shifts.length === 0) return pdf;
+
+  const document = await PDFDocument.load(pdf, { updateMetadata: false });
+  const pages = document.getPages();
+  for (const [pageNumber, shift] of shifts) {
+    const page = pages[pageNumber - 1];
+    if (!page) continue;
+    const { x, y, width, height } = page.getMediaBox();
+    page.setMediaBox(x + shift, y, width, height);
+  }
+  return document.save();
+}
+
+/**
+ * Named page a chapter is set on: the CSS page property of its body, or of
+ * the element it opens with
+ */
+function getPageName(chapter: Chapter): string | undefined {
+  const bodyPath = getChildPaths(undefined, [chapter.content])[0]!;
+  const openingPath = getChildPaths(bodyPath, chapter.content.children || [])[0];
+  return [bodyPath, openingPath]
+    .map((path) => path && getStylesForElement(chapter.styleMap, path).page)
+    .find((name): name is string => typeof name === 'string' && name !== 'auto');
+}
+
+/**
+ * Page padding for a geometry, with room for footnotes at the bottom
+ */
+function getPagePadding({ margins }: PageGeometry, footnoteReserve: number = 0) {
+  return {
+    paddingTop: margins.top,
+    paddingBottom: margins.bottom + footnoteReserve,
+    paddingLeft: margins.inside,
+    paddingRight: margins.outside,
+  };
+}
+
+/**
+ * Space that moves the first page's text to the :first page's top margin
+ */
+function renderFirstPageSpace(geometry: PageGeometry): React.ReactNode {
+  const extra = geometry.firstPageTop - geometry.margins.top;
+  return extra !== 0 && <View style={{ marginTop: extra }} />;
+}
+
+// =============================================================================
+// BOOK DOCUMENT COMPONENT
+// =============================================================================
+
+/**
+ * Computed style of an element from its document's CSS, with its ancestors
+ * computed first, from the html element's content down, for what it inherits
+ */
+function computeElementStyle(styleMap: StyleMap, path: ElementPath, rootStyle: ParentStyle): ReturnType<typeof computeStyle> {
+  const parentStyle = path.parent?.parent ? computeElementStyle(styleMap, path.parent, rootStyle).content : rootStyle;
+  return computeStyle(getStylesForElement(styleMap, path), parentStyle);
+}
+
+/**
+ * CSS of the element a part of the chapter heading was set in, to go over
+ * the opener's own style: the typeface and color it inherits, and what its
+ * own rules set. A number split off the title's text shares the title's
+ * element, and takes only its typeface and color.
+ */
+function getHeadingPartStyle(
+  chapter: Chapter,
+  kind: 'label' | 'title' | 'subtitle',
+  rootStyle: ParentStyle
+): ReturnType<typeof computeStyle>['style'] {
+  const { paths } = chapter.heading;
+  const path = paths?.[kind];
+  if (!path) return {};
+
+  const specified = getStylesForElement(chapter.styleMap, path);
+  const parentStyle = path.parent?.parent ? computeElementStyle(chapter.styleMap, path.parent, rootStyle).content : rootStyle;
+  const { style, content } = computeStyle(specified, parentStyle);
+  // An inherited line height is computed for the text's size, not the opener's
+  if (specified.lineHeight === undefined) delete style.lineHeight;
+  const inherited = Object.fromEntries(
+    OPENER_INHERITED.filter((property) => content.inherited[property] !== undefined).map((property) => [property, content.inherited[property]])
+  );
+  return kind !== 'title' && path === paths?.title ? inherited : { ...inherited, ...style };
+}
+
+/**
+ * Chapter opener: number, title and subtitle on lines of their own, or the
+ * chapter title alone when the heading has neither number nor subtitle.
+ * The CSS of the heading it replaces goes over the opener's style.
+ */
+function renderChapterOpener(chapter: Chapter, rootStyle: ParentStyle): React.ReactElement {
+  const { label, title, subtitle } = chapter.heading;
+  const titleStyle = getHeadingPartStyle(chapter, 'title', rootStyle);
+  if (!label && !subtitle) {
+    return <Text style={[styles.chapterTitle, titleStyle]}>{chapter.title}</Text>;
+  }
+
+  return (
+    <View style={styles.chapterOpener}>
+      {label && <Text style={[styles.chapterLabel, getHeadingPartStyle(chapter, 'label', rootStyle)]}>{label}</Text>}
+      {title && <Text style={[styles.chapterTitle, { marginBottom: 0 }, titleStyle]}>{title}</Text>}
+      {subtitle && <Text style={[styles.chapterSubtitle, getHeadingPartStyle(chapter, 'subtitle', rootStyle)]}>{subtitle}</Text>}
+    </View>
+  );
+}
+
+const BookDocument = ({
+  chapters,
+  title,
+  author,
+  metadata,
+  images,
+  notes,
+  notesLayout,
+  sceneBreak,
+  footnotePlacements,
+  referencePages,
+  footnoteReserves,
+  footnoteAreas,
+  sideBreaks,
+  blankPagesBefore,
+  pageGeometries,
+  pageLayouts,
+}: {
+  chapters: Chapter[];
+  title: string;
+  author: string;
+  metadata: EpubMetadata;
+  images: Map<string, EpubImage>;
+  notes: Map<string, Note>;
+  notesLayout: NotesLayout;
+  sceneBreak: SceneBreakOrnament;
+  footnotePlacements: Map<string, FootnotePlacement>;  // filled in while rendering
+  referencePages: Map<string, number>;                  // page each footnote reference fell on last time, counted from its text's first page
+  footnoteReserves: Map<string, number>;                // extra bottom padding per chapter
+  footnoteAreas: Map<string, FootnoteArea>;             // measured after rendering, by chapter
+  sideBreaks: Map<string, SideBreak>;                   // filled in while rendering
+  blankPagesBefore: Set<string>;                        // side breaks that landed on the wrong side last time
+  pageGeometries: Map<string, PageGeometry>;            // filled in while rendering, by chapter
+  pageLayouts: Map<number, PageLayout>;                 // filled in while rendering, by page number
+}) => {
+  // One trim size for the book; pages outside the chapters - the notes
+  // section - take the first document's @page margins
+  const trimSize = getTrimSize(chapters);
+  const bookGeometry = getPageGeometry(trimSize, chapters[0]?.styleMap, undefined, false);
+
+  // Each chapter and note brings the style map of its own document
+  const ctx: Omit<RenderContext, 'styleMap' | 'path'> = {
+    images,
+    listDepth: 0,
+    textStyle: styles.paragraph,
+    parentStyle: getInitialStyle(styles.page.fontSize, bookGeometry.textWidth),
+    blockHeight: bookGeometry.textHeight,
+    noteNumbers: new Map(),
+    linkTargets: collectLinkTargets(chapters),
+    sceneBreak,
+  };
+  const noteNumbersByChapter = new Map(chapters.map((ch) => [ch, numberNotes(ch.content, notes)]));
+  const notedChapters = chapters.filter((ch) => noteNumbersByChapter.get(ch)!.size > 0);
+
+  // Separate chapters by type
+  const titlePages = chapters.filter((ch) => ch.type === 'titlepage');
+  const frontMatter = chapters.filter((ch) => ch.type === 'frontmatter');
+  const storyChapters = chapters.filter((ch) => ch.type === 'chapter');
+  const backMatter = chapters.filter((ch) => ch.type === 'backmatter');
+  const firstChapter = [...titlePages, ...frontMatter, ...storyChapters, ...backMatter][0];
+
+  // Chapter of each footnote area's render callback, and the reference
+  // markers' callbacks, to find them in the layout
+  const footnoteAreaRenders = new Map<unknown, string>();
+  const footnoteMarkerRenders = new Map<unknown, FootnoteMarker>();
+  const footnoteTrackers: FootnoteTracker[] = [];
+
+  // Each chapter is its own Page, so footnote space can be reserved per chapter
+  const renderChapterPage = (chapter: Chapter, chapterKey: string, withRunningHeader: boolean) => {
+    const noteNumbers = noteNumbersByChapter.get(chapter)!;
+    const footnotes: FootnoteTracker | undefined = notesLayout === 'footnotes' && noteNumbers.size > 0
+      ? { placements: footnotePlacements, referencePages, markerRenders: footnoteMarkerRenders, noteNumbers, chapterKey }
+      : undefined;
+    const pageSides: PageSideTracker = { landed: sideBreaks, blankBefore: blankPagesBefore, chapterKey };
+    const geometry = getPageGeometry(trimSize, chapter.styleMap, getPageName(chapter), chapter === firstChapter);
+    pageGeometries.set(chapterKey, geometry);
+    if (footnotes) {
+      footnoteTrackers.push(footnotes);
+      footnoteAreas.set(chapterKey, { source: chapter.path, heights: new Map(), referencePages: new Map(), misplaced: [] });
+    }
+    const footnoteReserve = footnoteReserves.get(chapterKey) ?? 0;
+    const chapterCtx = documentContext(
+      {
+        ...ctx,
+        styleMap: chapter.styleMap,
+        parentStyle: getInitialStyle(styles.page.fontSize, geometry.textWidth),
+        blockHeight: geometry.textHeight - footnoteReserve,
+        noteNumbers,
+        footnotes,
+        pageSides,
+        pageStart: 'chapter',
+      },
+      chapter.content
+    );
+    const openingBreak = strongestPageBreak(getStylesForElement(chapter.styleMap, chapterCtx.path).breakBefore);
+
+    return [
+      // A chapter that must open on the other side starts after a blank page
+      blankPagesBefore.has(chapterKey) && (
+        <Page key={`${chapterKey}-blank`} size={geometry.size} style={[styles.page, getPagePadding(geometry)]}>
+          {renderPageRecorder(geometry, pageLayouts)}
+        </Page>
+      ),
+      <Page
+        key={chapterKey}
+        size={geometry.size}
+        style={[styles.page, getPagePadding(geometry, footnoteReserve)]}
+        wrap
+      >
+        {renderPageRecorder(geometry, pageLayouts)}
+        {renderPageNumber(geometry)}
+        {/* Running header: author on left (even) pages, title on right (odd) pages */}
+        {withRunningHeader && (
           <View
-            style={styles.headerContainer}
+            style={[styles.headerContainer, { top: geometry.margins.top / 2, left: geometry.margins.inside, right: geometry.margins.outside }]}
             fixed
             render={({ pageNumber }) =>
               pageNumber % 2 === 0 ? (
@@ -275,31 +2119,105 @@ const BookDocument = ({
               )
             }
           />
-          {storyChapters.map((chapter, chapterIndex) => (
-            <View key={chapterIndex} break={chapterIndex > 0}>
-              <Text style={styles.chapterTitle}>{chapter.title}</Text>
-              {renderNode(chapter.content, styleMap, `ch-${chapterIndex}`, chapterIndex === 0)}
+        )}
+        {renderFirstPageSpace(geometry)}
+        {/* Links to the chapter's file or title heading land on the opening */}
+        {renderLinkDestinations(chapter.content.anchors, chapterCtx, `${chapterKey}-opening`)}
+        {openingBreak && renderPageBreak(openingBreak, chapterCtx, `${chapterKey}-opening`)}
+        {renderChapterOpener(chapter, chapterCtx.parentStyle)}
+        {renderNode({ ...chapter.content, anchors: undefined }, chapterCtx, chapterKey)}
+
+        {notesLayout === 'chapter-endnotes' && noteNumbers.size > 0 && (
+          <View style={styles.noteList}>
+            <Text style={styles.notesHeading} minPresenceAhead={HEADING_KEEP_WITH_NEXT}>Notes</Text>
+            {renderNoteList([...noteNumbers.keys()], notes, { ...chapterCtx, parentStyle: getInitialStyle(styles.noteList.fontSize, geometry.textWidth) }, `${chapterKey}-notes`)}
+          </View>
+        )}
+        {footnotes && renderFootnoteArea(footnotes, notes, chapterCtx, geometry, footnoteAreaRenders)}
+      </Page>,
+    ];
+  };
+
+  return (
+    <Document
+      pageLayout="twoPageLeft"
+      title={title}
+      author={author}
+      subject={metadata.description}
+      language={metadata.language}
+      creator="epub-to-print-pdf"
+      onRender={(props) => {
+        const layout = (props as { _INTERNAL__LAYOUT__DATA_?: LayoutNode })._INTERNAL__LAYOUT__DATA_;
+        measureFootnoteAreas(layout, footnoteAreaRenders, footnoteAreas);
+        measureFootnoteReferences(layout, footnoteMarkerRenders, footnoteTrackers, footnoteAreas);
+      }}
+    >
+      {/* Title pages - proper KDP layout */}
+      {titlePages.map((chapter, idx) => {
+        const creditTexts = extractTextFromTree(chapter.content);
+        const geometry = getPageGeometry(trimSize, chapter.styleMap, undefined, chapter === firstChapter);
+        return (
+          <Page key={`title-${idx}`} size={geometry.size} style={[styles.page, getPagePadding(geometry)]}>
+            {renderPageRecorder(geometry, pageLayouts)}
+            {renderFirstPageSpace(geometry)}
+            <View style={styles.titlePage}>
+              {/* Title in upper area with underline */}
+              <View style={styles.titlePageTitleSection}>
+                <Text style={styles.titlePageTitle}>{chapter.title}</Text>
+                {metadata.subtitle && (
+                  <Text style={styles.titlePageSubtitle}>{metadata.subtitle}</Text>
+                )}
+                <View style={styles.titlePageUnderline} />
+              </View>
+
+              {/* Author in middle */}
+              {chapter.author && (
+                <View style={styles.titlePageAuthorSection}>
+                  <Text style={styles.titlePageAuthor}>{chapter.author}</Text>
+                </View>
+              )}
+
+              {/* Credits at bottom */}
+              {creditTexts.length > 0 && (
+                <View style={styles.titlePageCreditsSection}>
+                  {creditTexts.map((text, lineIdx) => (
+                    <Text key={lineIdx} style={styles.titlePageCredits}>
+                      {text}
+                    </Text>
+                  ))}
+                </View>
+              )}
             </View>
-          ))}
+          </Page>
+        );
+      })}
+
+      {/* Front matter - NO headers */}
+      {frontMatter.map((chapter, chapterIndex) => renderChapterPage(chapter, `fm-${chapterIndex}`, false))}
+
+      {/* Story chapters - WITH headers */}
+      {storyChapters.map((chapter, chapterIndex) => renderChapterPage(chapter, `ch-${chapterIndex}`, true))}
+
+      {/* Notes collected from every chapter, before the back matter */}
+      {notesLayout === 'notes-section' && notedChapters.length > 0 && (
+        <Page size={bookGeometry.size} style={[styles.page, getPagePadding(bookGeometry)]} wrap>
+          {renderPageRecorder(bookGeometry, pageLayouts)}
+          {renderPageNumber(bookGeometry)}
+          <Text style={styles.chapterTitle}>Notes</Text>
+          {notedChapters.map((chapter, chapterIndex) => {
+            const noteNumbers = noteNumbersByChapter.get(chapter)!;
+            return (
+              <View key={chapterIndex} style={styles.noteList}>
+                <Text style={styles.notesHeading} minPresenceAhead={HEADING_KEEP_WITH_NEXT}>{chapter.title}</Text>
+                {renderNoteList([...noteNumbers.keys()], notes, { ...ctx, styleMap: chapter.styleMap, noteNumbers, parentStyle: getInitialStyle(styles.noteList.fontSize, bookGeometry.textWidth) }, `notes-${chapterIndex}`)}
+              </View>
+            );
+          })}
         </Page>
       )}
 
       {/* Back matter - NO headers */}
-      {backMatter.length > 0 && (
-        <Page size={KDP_6x9} style={styles.page} wrap>
-          <Text
-            style={styles.pageNumber}
-            render={({ pageNumber, totalPages }) => `${pageNumber} / ${totalPages}`}
-            fixed
-          />
-          {backMatter.map((chapter, chapterIndex) => (
-            <View key={chapterIndex} break={chapterIndex > 0}>
-              <Text style={styles.chapterTitle}>{chapter.title}</Text>
-              {renderNode(chapter.content, styleMap, `bm-${chapterIndex}`)}
-            </View>
-          ))}
-        </Page>
-      )}
+      {backMatter.map((chapter, chapterIndex) => renderChapterPage(chapter, `bm-${chapterIndex}`, false))}
     </Document>
   );
 };
@@ -312,11 +2230,13 @@ export interface ConvertResult {
   success: boolean;
   pdfBase64?: string;
   error?: string;
+  diagnostics?: Diagnostic[];  // problems to fix in the EPUB, also sent when conversion fails
 }
 
 export async function convertEpubToPdf(
   formData: FormData
 ): Promise<ConvertResult> {
+  const diagnostics: Diagnostic[] = [];
   try {
     // Get EPUB file from form data
     const epubFile = formData.get('epub') as File;
@@ -325,30 +2245,122 @@ export async function convertEpubToPdf(
     }
 
     const epubData = new Uint8Array(await epubFile.arrayBuffer());
-    const parsed = await parseEpub(epubData);
+    // Print settings (@page size and margins, breaks) kept out of the EPUB
+    const printCssFile = formData.get('printCss') as File | null;
+    const printCss = printCssFile ? await printCssFile.text() : undefined;
+    const parsed = await parseEpub(epubData, printCss);
+    diagnostics.push(...parsed.diagnostics);
 
     if (parsed.chapters.length === 0) {
-      return { success: false, error: 'No chapters found in EPUB' };
+      return { success: false, error: 'No chapters found in EPUB', diagnostics: dedupeDiagnostics(diagnostics) };
     }
 
-    const document = (
-      <BookDocument
-        chapters={parsed.chapters}
-        title={parsed.title}
-        author={parsed.author}
-        styleMap={parsed.styleMap}
-      />
-    );
+    // Point CSS font-family at the embedded fonts or a fallback, and weights at their faces
+    const embeddedFonts = registerEpubFonts(parsed.fonts, diagnostics);
+    const fontRegistry: FontRegistry = { embedded: embeddedFonts, fallbacks: GENERIC_FONT_FALLBACKS, defaultFont: EB_GARAMOND };
+    const inlineStyles = [...parsed.chapters.map((ch) => ch.content), ...[...parsed.notes.values()].map((note) => note.content)]
+      .flatMap(collectInlineStyles);
+    resolveFonts(parsed.styleMaps, fontRegistry, inlineStyles, diagnostics);
 
-    const pdfBuffer = await renderToBuffer(document);
+    const notesLayout = (formData.get('notesLayout') as NotesLayout | null) || 'footnotes';
+    const sceneBreak = (formData.get('sceneBreak') as SceneBreakOrnament | null) || 'asterism';
+    const linkUrls = (formData.get('linkUrls') as LinkUrlStyle | null) || 'none';
+    const typography = formData.getAll('typography') as TypographyOption[];
 
-    const pdfBase64 = Buffer.from(pdfBuffer).toString('base64');
-    return { success: true, pdfBase64 };
+    // Before the glyph check, which then covers the quotes and dashes it sets
+    applyBookTypography(parsed.chapters, parsed.notes, typography, parsed.metadata.language);
+    diagnostics.push(...await findMissingGlyphs(parsed.chapters, parsed.notes, [EB_GARAMOND.family, ...[...embeddedFonts.values()].map((font) => font.family)]));
+
+    // Web addresses printed for the paper edition become notes of their own
+    const notes = new Map<string, Note>(parsed.notes);
+    addLinkUrls(parsed.chapters, notes, linkUrls);
+
+    diagnostics.push(...findOtherTrimSizes(parsed.chapters, getTrimSize(parsed.chapters)));
+
+    const pageGeometries = new Map<string, PageGeometry>();
+    const pageLayouts = new Map<number, PageLayout>();
+    const footnoteAreas = new Map<string, FootnoteArea>();
+    const renderBook = (
+      footnotePlacements: Map<string, FootnotePlacement>,
+      referencePages: Map<string, number>,
+      footnoteReserves: Map<string, number>,
+      sideBreaks: Map<string, SideBreak>,
+      blankPagesBefore: Set<string>
+    ) => {
+      pageLayouts.clear();
+      footnoteAreas.clear();
+      return renderToBuffer(
+        <BookDocument
+          chapters={parsed.chapters}
+          title={parsed.title}
+          author={parsed.author}
+          metadata={parsed.metadata}
+          images={parsed.images}
+          notes={notes}
+          notesLayout={notesLayout}
+          sceneBreak={sceneBreak}
+          footnotePlacements={footnotePlacements}
+          referencePages={referencePages}
+          footnoteReserves={footnoteReserves}
+          footnoteAreas={footnoteAreas}
+          sideBreaks={sideBreaks}
+          blankPagesBefore={blankPagesBefore}
+          pageGeometries={pageGeometries}
+          pageLayouts={pageLayouts}
+        />
+      );
+    };
+
+    // Footnotes need more passes: the first measures the notes where their
+    // references land, the next reserves that room at the foot of the chapters'
+    // pages and prints each note on the page its reference fell on - and more
+    // grow the room if references moved to share a page, or move the notes
+    // of references the room pushed to another page
+    const firstPlacements = new Map<string, FootnotePlacement>();
+    let footnoteReserves = new Map<string, number>();
+    let sideBreaks = new Map<string, SideBreak>();
+    let pdfBuffer = await renderBook(firstPlacements, new Map(), footnoteReserves, sideBreaks, new Set());
+    for (let pass = 0; pass < FOOTNOTE_PASSES && firstPlacements.size > 0; pass++) {
+      const reserves = getFootnoteReserves(footnoteAreas, pageGeometries, footnoteReserves);
+      const hasGrown = [...reserves].some(([chapterKey, reserve]) => reserve > (footnoteReserves.get(chapterKey) ?? 0) + 0.5);
+      const hasMisplaced = [...footnoteAreas.values()].some((area) => area.misplaced.length > 0);
+      if (!hasGrown && !hasMisplaced) break;
+      footnoteReserves = reserves;
+      sideBreaks = new Map();
+      pdfBuffer = await renderBook(new Map(), getReferencePages(footnoteAreas), footnoteReserves, sideBreaks, new Set());
+    }
+
+    // Breaks to a left or right page need one more: blank pages go before
+    // the ones that landed on the wrong side
+    const blankPagesBefore = findBlankPages(sideBreaks);
+    if (blankPagesBefore.size > 0) {
+      pdfBuffer = await renderBook(new Map(), getReferencePages(footnoteAreas), footnoteReserves, new Map(), blankPagesBefore);
+    }
+
+    diagnostics.push(...findFootnoteOverflows(footnoteAreas, footnoteReserves), ...findMisplacedFootnotes(footnoteAreas));
+
+    // Left pages, and first pages with margins of their own, are moved to their side margins
+    const placedPdf = await placePages(pdfBuffer, pageLayouts);
+    for (const selector of new Set([...pageLayouts.values()].flatMap(({ geometry }) => geometry.unmatched))) {
+      diagnostics.push({
+        severity: 'warning',
+        source: selector,
+        message: `${selector} margins make a text block of another size - its pages keep the right-hand page's, moved to their own side margin`,
+      });
+    }
+
+    const pdfBase64 = Buffer.from(placedPdf).toString('base64');
+    return { success: true, pdfBase64, diagnostics: dedupeDiagnostics(diagnostics) };
   } catch (err) {
+    // DRM is a property of the book, not a conversion failure
+    if (err instanceof DrmError) {
+      return { success: false, error: err.message, diagnostics: dedupeDiagnostics(diagnostics) };
+    }
     console.error('Server: Conversion error:', err);
     return {
       success: false,
       error: err instanceof Error ? err.message : String(err),
+      diagnostics: dedupeDiagnostics(diagnostics),
     };
   }
 }
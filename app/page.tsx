@@ -2,7 +2,9 @@
 
 import { useState } from 'react';
 import { convertEpubToPdf } from './actions/convert';
-import type { PageSizeKey } from '@/lib/BookDocument';
+import type { Diagnostic, DiagnosticSeverity } from '@/lib/diagnostics';
+import type { TypographyOption } from '@/lib/typography';
+import type { PageSizeKey, NotesLayout, SceneBreakOrnament, LinkUrlStyle } from '@/lib/BookDocument';
 
 const PAGE_SIZE_OPTIONS: { value: PageSizeKey; label: string }[] = [
   { value: 'kdp-6x9', label: 'KDP 6×9 (Trade Paperback)' },
@@ -11,12 +13,50 @@ const PAGE_SIZE_OPTIONS: { value: PageSizeKey; label: string }[] = [
   { value: 'letter', label: 'US Letter' },
 ];
 
+const NOTES_LAYOUT_OPTIONS: { value: NotesLayout; label: string }[] = [
+  { value: 'footnotes', label: 'Footnotes at the bottom of the page' },
+  { value: 'chapter-endnotes', label: 'Endnotes after each chapter' },
+  { value: 'notes-section', label: 'Notes section at the back of the book' },
+];
+
+const SCENE_BREAK_OPTIONS: { value: SceneBreakOrnament; label: string }[] = [
+  { value: 'asterism', label: 'Asterisks (*  *  *)' },
+  { value: 'glyph', label: 'Fleuron (❧)' },
+  { value: 'image', label: "The book's own ornament image" },
+];
+
+const LINK_URL_OPTIONS: { value: LinkUrlStyle; label: string }[] = [
+  { value: 'none', label: "Don't print web addresses" },
+  { value: 'brackets', label: 'In brackets after the link' },
+  { value: 'footnote', label: 'In a note' },
+];
+
+const TYPOGRAPHY_OPTIONS: { value: TypographyOption; label: string }[] = [
+  { value: 'quotes', label: 'Curly quotes and apostrophes for the book\'s language' },
+  { value: 'dashes', label: 'En and em dashes for -- and spaced hyphens' },
+  { value: 'ellipses', label: 'Ellipses for three dots' },
+  { value: 'no-break-spaces', label: 'Keep numbers with units and initials with names' },
+  { value: 'french-spacing', label: 'French spacing before ; : ! ? (French books only)' },
+];
+
+const SEVERITY_LABELS: Record<DiagnosticSeverity, string> = {
+  error: 'Missing',
+  warning: 'Changed',
+  info: 'Note',
+};
+
 export default function Home() {
   const [file, setFile] = useState<File | null>(null);
   const [pageSize, setPageSize] = useState<PageSizeKey>('kdp-6x9');
+  const [notesLayout, setNotesLayout] = useState<NotesLayout>('footnotes');
+  const [sceneBreak, setSceneBreak] = useState<SceneBreakOrnament>('asterism');
+  const [linkUrls, setLinkUrls] = useState<LinkUrlStyle>('none');
+  const [typography, setTypography] = useState<TypographyOption[]>([]);
+  const [printCss, setPrintCss] = useState<File | null>(null);
   const [status, setStatus] = useState('');
   const [isConverting, setIsConverting] = useState(false);
   const [pdfData, setPdfData] = useState<string | null>(null);
+  const [diagnostics, setDiagnostics] = useState<Diagnostic[]>([]);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0];
@@ -24,6 +64,7 @@ export default function Home() {
       setFile(selectedFile);
       setStatus(`Selected: ${selectedFile.name}`);
       setPdfData(null);
+      setDiagnostics([]);
     } else if (selectedFile) {
       setStatus('Please select an EPUB file');
       setFile(null);
@@ -36,13 +77,20 @@ export default function Home() {
     setIsConverting(true);
     setStatus('Converting...');
     setPdfData(null);
+    setDiagnostics([]);
 
     try {
       const formData = new FormData();
       formData.append('epub', file);
       formData.append('pageSize', pageSize);
+      formData.append('notesLayout', notesLayout);
+      formData.append('sceneBreak', sceneBreak);
+      formData.append('linkUrls', linkUrls);
+      typography.forEach((option) => formData.append('typography', option));
+      if (printCss) formData.append('printCss', printCss);
 
       const result = await convertEpubToPdf(formData);
+      setDiagnostics(result.diagnostics || []);
 
       if (result.success && result.pdfBase64) {
         setPdfData(result.pdfBase64);
@@ -123,6 +171,109 @@ export default function Home() {
         </select>
       </div>
 
+      <div style={{ marginBottom: '24px' }}>
+        <label style={{ display: 'block', marginBottom: '8px', fontWeight: 600 }}>
+          3. Choose where notes go
+        </label>
+        <select
+          value={notesLayout}
+          onChange={(e) => setNotesLayout(e.target.value as NotesLayout)}
+          style={{
+            fontSize: '14px',
+            padding: '8px 12px',
+            borderRadius: '4px',
+            border: '1px solid var(--border)',
+            backgroundColor: 'var(--bg)',
+            color: 'var(--text)'
+          }}
+        >
+          {NOTES_LAYOUT_OPTIONS.map((opt) => (
+            <option key={opt.value} value={opt.value}>
+              {opt.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div style={{ marginBottom: '24px' }}>
+        <label style={{ display: 'block', marginBottom: '8px', fontWeight: 600 }}>
+          4. Choose the scene break ornament
+        </label>
+        <select
+          value={sceneBreak}
+          onChange={(e) => setSceneBreak(e.target.value as SceneBreakOrnament)}
+          style={{
+            fontSize: '14px',
+            padding: '8px 12px',
+            borderRadius: '4px',
+            border: '1px solid var(--border)',
+            backgroundColor: 'var(--bg)',
+            color: 'var(--text)'
+          }}
+        >
+          {SCENE_BREAK_OPTIONS.map((opt) => (
+            <option key={opt.value} value={opt.value}>
+              {opt.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div style={{ marginBottom: '24px' }}>
+        <label style={{ display: 'block', marginBottom: '8px', fontWeight: 600 }}>
+          5. Choose how web addresses are printed
+        </label>
+        <select
+          value={linkUrls}
+          onChange={(e) => setLinkUrls(e.target.value as LinkUrlStyle)}
+          style={{
+            fontSize: '14px',
+            padding: '8px 12px',
+            borderRadius: '4px',
+            border: '1px solid var(--border)',
+            backgroundColor: 'var(--bg)',
+            color: 'var(--text)'
+          }}
+        >
+          {LINK_URL_OPTIONS.map((opt) => (
+            <option key={opt.value} value={opt.value}>
+              {opt.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div style={{ marginBottom: '24px' }}>
+        <label style={{ display: 'block', marginBottom: '8px', fontWeight: 600 }}>
+          6. Smart typography (optional)
+        </label>
+        {TYPOGRAPHY_OPTIONS.map((opt) => (
+          <label key={opt.value} style={{ display: 'block', fontSize: '14px', marginBottom: '4px' }}>
+            <input
+              type="checkbox"
+              checked={typography.includes(opt.value)}
+              onChange={(e) => setTypography(e.target.checked
+                ? [...typography, opt.value]
+                : typography.filter((option) => option !== opt.value))}
+              style={{ marginRight: '8px' }}
+            />
+            {opt.label}
+          </label>
+        ))}
+      </div>
+
+      <div style={{ marginBottom: '24px' }}>
+        <label style={{ display: 'block', marginBottom: '8px', fontWeight: 600 }}>
+          7. Print stylesheet (optional)
+        </label>
+        <input
+          type="file"
+          accept=".css"
+          onChange={(e) => setPrintCss(e.target.files?.[0] ?? null)}
+          style={{ fontSize: '14px' }}
+        />
+      </div>
+
       <div style={{ marginBottom: '24px', display: 'flex', gap: '12px' }}>
         <button
           onClick={handleConvert}
@@ -173,6 +324,35 @@ export default function Home() {
           {status}
         </p>
       )}
+
+      {diagnostics.length > 0 && (
+        <div style={{ marginTop: '24px' }}>
+          <h2 style={{ fontSize: '16px', marginBottom: '8px' }}>
+            Conversion report ({diagnostics.length})
+          </h2>
+          <p style={{ color: 'var(--text-muted)', fontSize: '14px', marginTop: 0 }}>
+            Fix these in the EPUB before printing.
+          </p>
+          <ul style={{ listStyle: 'none', padding: 0, margin: 0, fontSize: '14px' }}>
+            {diagnostics.map((diagnostic, i) => (
+              <li key={i} style={{
+                padding: '8px 0',
+                borderTop: '1px solid var(--border)',
+              }}>
+                <span style={{
+                  fontWeight: 600,
+                  marginRight: '8px',
+                  color: diagnostic.severity === 'error' ? 'var(--text-error)' : diagnostic.severity === 'warning' ? 'var(--text)' : 'var(--text-muted)',
+                }}>
+                  {SEVERITY_LABELS[diagnostic.severity]}
+                </span>
+                <code style={{ fontSize: '13px', color: 'var(--text-muted)' }}>{diagnostic.source}</code>
+                <div style={{ marginTop: '4px' }}>{diagnostic.message}</div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
     </main>
   );
 }
@@ -12,6 +12,18 @@ export const PAGE_SIZES = {
 
 export type PageSizeKey = keyof typeof PAGE_SIZES;
 
+// Where footnotes and endnotes are printed:
+// at the foot of the referencing page, after each chapter, or in a Notes section
+export type NotesLayout = 'footnotes' | 'chapter-endnotes' | 'notes-section';
+
+// Ornament printed at scene breaks: spaced asterisks, a fleuron glyph,
+// or the EPUB's own ornament image (asterisks when it has none)
+export type SceneBreakOrnament = 'asterism' | 'glyph' | 'image';
+
+// How the address of a web link is printed for the paper edition:
+// not at all, in brackets after the link text, or in a footnote
+export type LinkUrlStyle = 'none' | 'brackets' | 'footnote';
+
 // KDP margin requirements:
 // - Minimum outside margin: 0.25" (18pt)
 // - Minimum inside (gutter) margin: depends on page count, typically 0.375" (27pt) minimum
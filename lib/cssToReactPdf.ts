@@ -6,11 +6,12 @@
  * 
  * Philosophy: Words > Layout > Styling
  * - Never lose text content
- * - Unsupported properties get silently skipped
+ * - Unsupported properties get skipped (checkCss reports them)
  * - Graceful degradation over crashes
  */
 
 import * as csstree from 'css-tree';
+import type { Diagnostic } from './diagnostics';
 
 // =============================================================================
 // SUPPORTED PROPERTIES (from react-pdf styling.md)
@@ -31,7 +32,8 @@ const SUPPORTED_PROPERTIES = new Set([
   // Color
   'backgroundColor', 'color', 'opacity',
   
-  // Text (font properties excluded - use hard-coded styles for font/size)
+  // Text
+  'fontSize', 'fontStyle', 'fontWeight', 'lineHeight',
   'letterSpacing', 'maxLines', 'textAlign', 'textDecoration', 'textDecorationColor',
   'textDecorationStyle', 'textIndent', 'textOverflow', 'textTransform',
   
@@ -55,6 +57,25 @@ const SUPPORTED_PROPERTIES = new Set([
   'borderLeft', 'borderLeftColor', 'borderLeftStyle', 'borderLeftWidth',
   'borderTopLeftRadius', 'borderTopRightRadius',
   'borderBottomRightRadius', 'borderBottomLeftRadius',
+
+  // Lists (not a react-pdf property - read by the renderer to draw markers)
+  'listStyleType',
+
+  // Line breaks (not a react-pdf property - read by the parser and renderer for verse)
+  'whiteSpace',
+
+  // Font family (kept as the CSS list - resolveFonts maps it to a registered font)
+  'fontFamily',
+
+  // Small caps (not a react-pdf property - read by the renderer, which draws them)
+  'fontVariant',
+
+  // Pagination (not react-pdf properties - read by the renderer, which sets
+  // break, wrap, minPresenceAhead, orphans and widows)
+  'breakBefore', 'breakAfter', 'breakInside', 'orphans', 'widows',
+
+  // Named pages (not a react-pdf property - read by the renderer to pick the @page rules)
+  'page',
 ]);
 
 // =============================================================================
@@ -70,8 +91,12 @@ const PROPERTY_MAP: Record<string, string> = {
   'text-decoration-style': 'textDecorationStyle',
   'text-transform': 'textTransform',
   'text-overflow': 'textOverflow',
-  // font-size, font-family, font-style, font-weight, line-height excluded
-  // use hard-coded styles for font properties
+  'font-size': 'fontSize',
+  'font-style': 'fontStyle',
+  'font-weight': 'fontWeight',
+  'font-variant': 'fontVariant',
+  'font-variant-caps': 'fontVariant',
+  'line-height': 'lineHeight',
   'letter-spacing': 'letterSpacing',
   'max-lines': 'maxLines',
   
@@ -145,6 +170,21 @@ const PROPERTY_MAP: Record<string, string> = {
   
   // Layout
   'z-index': 'zIndex',
+
+  // Lists
+  'list-style-type': 'listStyleType',
+  'list-style': 'listStyleType',
+
+  // Line breaks
+  'white-space': 'whiteSpace',
+
+  // Pagination (CSS 2 page-break-* and CSS 3 break-* share a property)
+  'page-break-before': 'breakBefore',
+  'page-break-after': 'breakAfter',
+  'page-break-inside': 'breakInside',
+  'break-before': 'breakBefore',
+  'break-after': 'breakAfter',
+  'break-inside': 'breakInside',
   
   // Direct mappings (CSS name = react-pdf name)
   'margin': 'margin',
@@ -165,7 +205,7 @@ const PROPERTY_MAP: Record<string, string> = {
   'gap': 'gap',
 };
 
-// Base font size for em conversion (standard is 11pt)
+// Body font size (standard is 11pt) - medium, for the font-size keywords
 const BASE_FONT_SIZE_PT = 11;
 
 // =============================================================================
@@ -175,6 +215,7 @@ const BASE_FONT_SIZE_PT = 11;
 /**
  * Convert CSS unit value to react-pdf compatible value
  * Supports: em, rem, px, pt, in, mm, cm, %, vw, vh
+ * (em, rem and % are kept as strings - computeStyle resolves them)
  */
 function convertUnit(value: string): number | string {
   if (!value || value === 'inherit' || value === 'initial' || value === 'unset' || value === 'auto') {
@@ -193,16 +234,10 @@ function convertUnit(value: string): number | string {
     return trimmed;
   }
 
-  // em units - convert to pt
-  const emMatch = trimmed.match(/^(-?\d+\.?\d*)em$/);
+  // em and rem units - keep as string, the font sizes are known once computed
+  const emMatch = trimmed.match(/^(-?\d*\.?\d+)(r?em)$/);
   if (emMatch) {
-    return parseFloat(emMatch[1]) * BASE_FONT_SIZE_PT;
-  }
-
-  // rem units - treat same as em
-  const remMatch = trimmed.match(/^(-?\d+\.?\d*)rem$/);
-  if (remMatch) {
-    return parseFloat(remMatch[1]) * BASE_FONT_SIZE_PT;
+    return `${parseFloat(emMatch[1])}${emMatch[2]}`;
   }
 
   // px units - convert to pt (1px = 0.75pt at 72dpi)
@@ -244,6 +279,74 @@ function convertUnit(value: string): number | string {
   return trimmed;
 }
 
+// CSS absolute font sizes, as multiples of medium (the body size)
+const FONT_SIZE_KEYWORDS = new Map([
+  ['xx-small', 3 / 5], ['x-small', 3 / 4], ['small', 8 / 9], ['medium', 1],
+  ['large', 6 / 5], ['x-large', 3 / 2], ['xx-large', 2], ['xxx-large', 3],
+]);
+
+// Step of smaller and larger
+const FONT_SIZE_RATIO = 1.2;
+
+// CSS weight keywords; bolder and lighter step from normal
+const FONT_WEIGHT_KEYWORDS = new Map([['normal', 400], ['bold', 700], ['bolder', 700], ['lighter', 100]]);
+
+/**
+ * Convert a CSS font-size: absolute sizes and keywords to pt; sizes relative
+ * to the parent's (em, %, smaller, larger) to an em string, which the
+ * renderer computes against the parent's font size
+ */
+function convertFontSize(value: string): number | string | null {
+  const trimmed = value.trim().toLowerCase();
+  const scale = FONT_SIZE_KEYWORDS.get(trimmed);
+  if (scale) return BASE_FONT_SIZE_PT * scale;
+  if (trimmed === 'smaller') return `${1 / FONT_SIZE_RATIO}em`;
+  if (trimmed === 'larger') return `${FONT_SIZE_RATIO}em`;
+
+  const relativeMatch = trimmed.match(/^(\d*\.?\d+)(em|rem|%)$/);
+  if (relativeMatch) {
+    const factor = parseFloat(relativeMatch[1]) / (relativeMatch[2] === '%' ? 100 : 1);
+    return factor > 0 ? `${factor}${relativeMatch[2] === 'rem' ? 'rem' : 'em'}` : null;
+  }
+
+  const size = convertUnit(trimmed);
+  return typeof size === 'number' && size > 0 ? size : null;
+}
+
+/**
+ * Convert a CSS font-weight to a number from 1 to 1000 (snapped to a
+ * registered face later, by resolveFonts)
+ */
+function convertFontWeight(value: string): number | null {
+  const trimmed = value.trim().toLowerCase();
+  const weight = FONT_WEIGHT_KEYWORDS.get(trimmed) ?? Number(trimmed);
+  return weight >= 1 && weight <= 1000 ? weight : null;
+}
+
+/**
+ * Convert a CSS line-height: a plain number stays a factor of the font size,
+ * %, em and rem stay relative, and other lengths become pt strings, which
+ * react-pdf takes as they are (it multiplies plain numbers by the font size).
+ * computeStyle turns them all into pt.
+ */
+function convertLineHeight(value: string): number | string | null {
+  const trimmed = value.trim().toLowerCase();
+  if (/^\d*\.?\d+$/.test(trimmed)) return parseFloat(trimmed);
+  if (/^\d*\.?\d+(%|r?em)$/.test(trimmed)) return trimmed;
+
+  const length = convertUnit(trimmed);
+  return typeof length === 'number' && length > 0 ? `${length}pt` : null;
+}
+
+// Page break values, from both property generations: 'page' forces a break,
+// 'left'/'right' a break to the next even/odd page. Column and region
+// breaks have no effect - the book is set in one column.
+const PAGE_BREAK_VALUES = new Map([
+  ['auto', 'auto'], ['avoid', 'avoid'], ['avoid-page', 'avoid'],
+  ['always', 'page'], ['page', 'page'], ['all', 'page'],
+  ['left', 'left'], ['verso', 'left'], ['right', 'right'], ['recto', 'right'],
+]);
+
 // =============================================================================
 // TRANSFORM PARSING
 // =============================================================================
@@ -426,15 +529,32 @@ function convertProperty(cssProperty: string, cssValue: string): ConvertResult {
 
   // Special handling for certain properties
   switch (cssProperty) {
-    case 'font-weight':
-      if (cssValue === 'bold') return { key: reactPdfKey, value: 'bold' };
-      if (cssValue === 'normal') return { key: reactPdfKey, value: 'normal' };
-      const weight = parseInt(cssValue);
-      if (!isNaN(weight)) return { key: reactPdfKey, value: weight };
-      return { key: reactPdfKey, value: cssValue };
+    case 'font-size': {
+      const size = convertFontSize(cssValue);
+      return size !== null ? { key: reactPdfKey, value: size } : null;
+    }
+
+    case 'font-weight': {
+      const weight = convertFontWeight(cssValue);
+      return weight !== null ? { key: reactPdfKey, value: weight } : null;
+    }
 
     case 'font-style':
-      // 'normal' | 'italic' | 'oblique'
+      // 'normal' | 'italic' - oblique is printed with the italic face
+      if (/^(italic|oblique)\b/i.test(cssValue)) return { key: reactPdfKey, value: 'italic' };
+      if (cssValue === 'normal') return { key: reactPdfKey, value: 'normal' };
+      return null;
+
+    case 'font-variant':
+    case 'font-variant-caps':
+      // 'normal' | 'small-caps' | 'all-small-caps' - other variants have no effect
+      if (['normal', 'small-caps', 'all-small-caps'].includes(cssValue)) {
+        return { key: reactPdfKey, value: cssValue };
+      }
+      return null;
+
+    case 'font-family':
+      // '"Lobster", cursive' - resolved once the EPUB's fonts are registered
       return { key: reactPdfKey, value: cssValue };
 
     case 'text-align':
@@ -471,13 +591,43 @@ function convertProperty(cssProperty: string, cssValue: string): ConvertResult {
       }
       return null;
 
-    case 'line-height':
-      return { key: reactPdfKey, value: convertUnit(cssValue) };
+    case 'line-height': {
+      // 'normal' is react-pdf's default - nothing to set
+      const lineHeight = convertLineHeight(cssValue);
+      return lineHeight !== null ? { key: reactPdfKey, value: lineHeight } : null;
+    }
 
     case 'margin':
     case 'padding':
       return convertBoxShorthand(reactPdfKey, cssValue);
 
+    case 'page-break-before':
+    case 'page-break-after':
+    case 'break-before':
+    case 'break-after': {
+      const pageBreak = PAGE_BREAK_VALUES.get(cssValue);
+      return pageBreak ? { key: reactPdfKey, value: pageBreak } : null;
+    }
+
+    case 'page-break-inside':
+    case 'break-inside':
+      // 'avoid' | 'auto' - avoid-column and avoid-region have no effect
+      if (['avoid', 'avoid-page'].includes(cssValue)) return { key: reactPdfKey, value: 'avoid' };
+      if (cssValue === 'auto') return { key: reactPdfKey, value: 'auto' };
+      return null;
+
+    case 'orphans':
+    case 'widows':
+      // Minimum number of lines left at the foot or carried to the head of a page
+      return /^[1-9]\d*$/.test(cssValue) ? { key: reactPdfKey, value: parseInt(cssValue, 10) } : null;
+
+    case 'list-style-type':
+    case 'list-style': {
+      // Shorthand may also carry position/image - keep only the marker type
+      const markerType = cssValue.split(/\s+/).find(part => !['inside', 'outside'].includes(part) && !part.startsWith('url('));
+      return markerType ? { key: reactPdfKey, value: markerType } : null;
+    }
+
     case 'transform':
       const transformArray = parseTransform(cssValue);
       if (transformArray) {
@@ -516,8 +666,9 @@ function camelCase(str: string): string {
 
 /**
  * Parse a CSS declaration block string and return react-pdf style object
+ * (also used for style="" attributes)
  */
-function parseDeclarationBlock(cssText: string): Record<string, any> {
+export function parseDeclarationBlock(cssText: string): Record<string, any> {
   const style: Record<string, any> = {};
   
   const declarations = cssText.split(';').filter(d => d.trim());
@@ -527,7 +678,7 @@ function parseDeclarationBlock(cssText: string): Record<string, any> {
     if (colonIndex === -1) continue;
     
     const property = decl.slice(0, colonIndex).trim();
-    const value = decl.slice(colonIndex + 1).trim();
+    const value = decl.slice(colonIndex + 1).replace(/!\s*important\s*$/i, '').trim();
     
     const converted = convertProperty(property, value);
     
@@ -576,9 +727,63 @@ function convertMediaQuery(mediaText: string): string | null {
 }
 
 // =============================================================================
-// SELECTOR HELPERS
+// SELECTOR MATCHING
 // =============================================================================
 
+/**
+ * Element as the cascade sees it: a ContentNode, an InlineRun or a DOM element
+ */
+export interface StyledNode {
+  tagName: string;
+  classNames: string[];
+  attributes: Record<string, string>;  // all source attributes, including id
+  style?: Record<string, unknown>;      // style="" attribute, converted to react-pdf
+}
+
+/**
+ * Where an element sits in its document - what combinators and structural
+ * pseudo-classes are matched against
+ */
+export interface ElementPath {
+  node: StyledNode;
+  parent?: ElementPath;
+  siblings: StyledNode[];  // element children of the parent, node included
+  index: number;           // position of node among its siblings
+}
+
+type ElementTest = (path: ElementPath) => boolean;
+
+// Compound selector (p.note:first-child) and how it relates to the one before it
+interface Compound {
+  tests: ElementTest[];
+  combinator?: string;  // ' ', '>', '+' or '~'; unset for the leftmost compound
+}
+
+interface CompiledSelector {
+  matches: ElementTest;
+  specificity: number;  // ids, classes and types packed into one comparable number
+  key: string;          // #id, .class, tag or * of the rightmost compound, for rule lookup
+}
+
+// Selector the cascade cannot match; the message says which part
+class UnsupportedSelectorError extends Error {}
+
+// Stand-in for <html>, above a document's body and above lifted-out notes
+const ROOT_NODE: StyledNode = { tagName: 'html', classNames: [], attributes: {} };
+const ROOT_PATH: ElementPath = { node: ROOT_NODE, siblings: [ROOT_NODE], index: 0 };
+
+const ID_SPECIFICITY = 1_000_000;
+const CLASS_SPECIFICITY = 1_000;
+const TYPE_SPECIFICITY = 1;
+
+// Interaction states never apply on paper - their rules are rightly skipped
+const INTERACTIVE_PSEUDO_CLASSES = new Set([
+  'hover', 'active', 'focus', 'focus-within', 'focus-visible', 'visited', 'target', 'checked', 'disabled', 'enabled',
+]);
+
+// Pseudo-elements that CSS 2 wrote with a single colon
+const LEGACY_PSEUDO_ELEMENTS = new Set(['first-letter', 'first-line', 'before', 'after']);
+
 /**
  * Normalize a CSS selector
  */
@@ -587,33 +792,412 @@ function normalizeSelector(selector: string): string {
 }
 
 /**
- * Extract class names from a selector
- * "p.subsq.first" -> ["subsq", "first"]
+ * Paths of a parent's children, in order; undefined for bare text and the
+ * other '#' nodes, which are not elements. Without a parent the children
+ * hang below <html>.
+ */
+export function getChildPaths(parent: ElementPath | undefined, children: StyledNode[]): (ElementPath | undefined)[] {
+  const siblings = children.filter(child => !child.tagName.startsWith('#'));
+  let index = 0;
+  return children.map(child =>
+    child.tagName.startsWith('#') ? undefined : { node: child, parent: parent ?? ROOT_PATH, siblings, index: index++ }
+  );
+}
+
+function siblingPath(path: ElementPath, index: number): ElementPath {
+  return { node: path.siblings[index], parent: path.parent, siblings: path.siblings, index };
+}
+
+/**
+ * Compile a selector from the stylesheet's syntax tree into a matcher.
+ * Throws UnsupportedSelectorError for pseudo-elements and the pseudo-classes
+ * that cannot be decided from the element tree.
+ */
+function compileSelector(selector: csstree.Selector): CompiledSelector {
+  const compounds: Compound[] = [{ tests: [] }];
+  let specificity = 0;
+  let key = '*';
+  let keyRank = 0;  // 3 id, 2 class, 1 tag - the most selective part of the rightmost compound
+
+  const setKey = (candidate: string, rank: number) => {
+    if (rank > keyRank) {
+      key = candidate;
+      keyRank = rank;
+    }
+  };
+
+  for (const part of selector.children.toArray()) {
+    const tests = compounds[compounds.length - 1].tests;
+
+    switch (part.type) {
+      case 'Combinator': {
+        if (!/^[ >+~]$/.test(part.name)) throw new UnsupportedSelectorError(`Combinator "${part.name}" is not supported`);
+        compounds.push({ tests: [], combinator: part.name });
+        key = '*';
+        keyRank = 0;
+        break;
+      }
+      case 'TypeSelector': {
+        const tagName = part.name.split('|').pop()!.toLowerCase();
+        if (tagName === '*') break;
+        tests.push(path => path.node.tagName.toLowerCase() === tagName);
+        specificity += TYPE_SPECIFICITY;
+        setKey(tagName, 1);
+        break;
+      }
+      case 'ClassSelector': {
+        const className = part.name;
+        tests.push(path => path.node.classNames.includes(className));
+        specificity += CLASS_SPECIFICITY;
+        setKey(`.${className}`, 2);
+        break;
+      }
+      case 'IdSelector': {
+        const id = part.name;
+        tests.push(path => path.node.attributes.id === id);
+        specificity += ID_SPECIFICITY;
+        setKey(`#${id}`, 3);
+        break;
+      }
+      case 'AttributeSelector': {
+        tests.push(compileAttributeSelector(part));
+        specificity += CLASS_SPECIFICITY;
+        break;
+      }
+      case 'PseudoClassSelector': {
+        const compiled = compilePseudoClass(part);
+        tests.push(compiled.test);
+        specificity += compiled.specificity;
+        break;
+      }
+      case 'PseudoElementSelector':
+        throw new UnsupportedSelectorError(`Pseudo-element ::${part.name} is not supported`);
+      default:
+        throw new UnsupportedSelectorError(`"${csstree.generate(part)}" is not supported`);
+    }
+  }
+
+  const matchFrom = (i: number, path: ElementPath): boolean => {
+    const { tests, combinator } = compounds[i];
+    if (!tests.every(test => test(path))) return false;
+    if (i === 0) return true;
+
+    switch (combinator) {
+      case '>':
+        return !!path.parent && matchFrom(i - 1, path.parent);
+      case '+':
+        return path.index > 0 && matchFrom(i - 1, siblingPath(path, path.index - 1));
+      case '~':
+        for (let index = path.index - 1; index >= 0; index--) {
+          if (matchFrom(i - 1, siblingPath(path, index))) return true;
+        }
+        return false;
+      default:
+        for (let ancestor = path.parent; ancestor; ancestor = ancestor.parent) {
+          if (matchFrom(i - 1, ancestor)) return true;
+        }
+        return false;
+    }
+  };
+
+  return { matches: path => matchFrom(compounds.length - 1, path), specificity, key };
+}
+
+/**
+ * [attr], [attr=v], [attr~=v], [attr|=v], [attr^=v], [attr$=v], [attr*=v],
+ * with the i flag. Namespaced names ([epub|type]) match the prefixed
+ * attribute (epub:type); *| matches the name with any prefix.
+ */
+function compileAttributeSelector(selector: csstree.AttributeSelector): ElementTest {
+  const [prefix, localName] = selector.name.name.includes('|')
+    ? selector.name.name.split('|') as [string, string]
+    : [undefined, selector.name.name];
+  const ignoreCase = /i/.test(selector.flags || '');
+  const fold = (text: string) => (ignoreCase ? text.toLowerCase() : text);
+  const rawValue = !selector.value ? '' : selector.value.type === 'String' ? selector.value.value : selector.value.name;
+  const value = fold(rawValue);
+
+  const getValue = (attributes: Record<string, string>): string | undefined => {
+    if (prefix === '*') {
+      const name = Object.keys(attributes).find(name => name === localName || name.endsWith(`:${localName}`));
+      return name === undefined ? undefined : attributes[name];
+    }
+    return attributes[prefix ? `${prefix}:${localName}` : localName];
+  };
+
+  return path => {
+    const attribute = getValue(path.node.attributes);
+    if (attribute === undefined) return false;
+    const actual = fold(attribute);
+
+    switch (selector.matcher) {
+      case null:
+        return true;
+      case '=':
+        return actual === value;
+      case '~=':
+        return actual.split(/\s+/).includes(value);
+      case '|=':
+        return actual === value || actual.startsWith(`${value}-`);
+      case '^=':
+        return value !== '' && actual.startsWith(value);
+      case '$=':
+        return value !== '' && actual.endsWith(value);
+      case '*=':
+        return value !== '' && actual.includes(value);
+      default:
+        return false;
+    }
+  };
+}
+
+/**
+ * Structural pseudo-classes (:first-child, :nth-of-type(2n+1)...), :not,
+ * :is/:where, :lang, :root and :link. Interaction states never match.
+ */
+function compilePseudoClass(selector: csstree.PseudoClassSelector): { test: ElementTest; specificity: number } {
+  const name = selector.name.toLowerCase();
+  const argument = selector.children?.first;
+  const sameType = (path: ElementPath) =>
+    path.siblings.filter(sibling => sibling.tagName.toLowerCase() === path.node.tagName.toLowerCase());
+  const structural = (test: ElementTest) => ({ test, specificity: CLASS_SPECIFICITY });
+
+  switch (name) {
+    case 'first-child':
+      return structural(path => path.index === 0);
+    case 'last-child':
+      return structural(path => path.index === path.siblings.length - 1);
+    case 'only-child':
+      return structural(path => path.siblings.length === 1);
+    case 'first-of-type':
+      return structural(path => sameType(path)[0] === path.node);
+    case 'last-of-type':
+      return structural(path => sameType(path).pop() === path.node);
+    case 'only-of-type':
+      return structural(path => sameType(path).length === 1);
+    case 'nth-child':
+    case 'nth-last-child':
+    case 'nth-of-type':
+    case 'nth-last-of-type': {
+      if (argument?.type !== 'Nth' || argument.selector) break;
+      const matchesPosition = compileNth(argument);
+      const fromEnd = name.includes('last');
+      return structural(path => {
+        const siblings = name.endsWith('of-type') ? sameType(path) : path.siblings;
+        const index = siblings.indexOf(path.node);
+        return matchesPosition(fromEnd ? siblings.length - index : index + 1);
+      });
+    }
+    case 'not':
+    case 'is':
+    case 'matches':
+    case 'where': {
+      if (argument?.type !== 'SelectorList') break;
+      const alternatives = argument.children.toArray().map(item => compileSelector(item as csstree.Selector));
+      const anyMatches: ElementTest = path => alternatives.some(alternative => alternative.matches(path));
+      const specificity = name === 'where' ? 0 : Math.max(0, ...alternatives.map(alternative => alternative.specificity));
+      return { test: name === 'not' ? path => !anyMatches(path) : anyMatches, specificity };
+    }
+    case 'lang': {
+      if (argument?.type !== 'Identifier') break;
+      const language = argument.name.toLowerCase();
+      return structural(path => {
+        for (let current: ElementPath | undefined = path; current; current = current.parent) {
+          const lang = (current.node.attributes.lang ?? current.node.attributes['xml:lang'])?.toLowerCase();
+          if (lang !== undefined) return lang === language || lang.startsWith(`${language}-`);
+        }
+        return false;
+      });
+    }
+    case 'root':
+      return structural(path => path.parent === undefined);
+    case 'link':
+    case 'any-link':
+      return structural(path => path.node.tagName.toLowerCase() === 'a' && 'href' in path.node.attributes);
+    default:
+      if (INTERACTIVE_PSEUDO_CLASSES.has(name)) return structural(() => false);
+      if (LEGACY_PSEUDO_ELEMENTS.has(name)) throw new UnsupportedSelectorError(`Pseudo-element ::${name} is not supported`);
+  }
+  throw new UnsupportedSelectorError(`:${name}${argument ? `(${csstree.generate(argument)})` : ''} is not supported`);
+}
+
+/**
+ * An+B from :nth-child() and friends -> test of a 1-based position
+ */
+function compileNth(nth: csstree.Nth): (position: number) => boolean {
+  let a = 0;
+  let b = 0;
+  if (nth.nth.type === 'Identifier') {
+    // odd / even
+    a = 2;
+    b = nth.nth.name.toLowerCase() === 'odd' ? 1 : 0;
+  } else {
+    a = nth.nth.a === null ? 0 : parseInt(nth.nth.a === '-' ? '-1' : nth.nth.a === '+' ? '1' : nth.nth.a, 10);
+    b = nth.nth.b === null ? 0 : parseInt(nth.nth.b, 10);
+  }
+  return position => (a === 0 ? position === b : (position - b) / a >= 0 && (position - b) % a === 0);
+}
+
+// =============================================================================
+// PAGE RULES
+// =============================================================================
+
+// Page box set by @page rules, lengths in pt
+export interface PageBox {
+  size?: { width: number; height: number };
+  marginTop?: number;
+  marginRight?: number;
+  marginBottom?: number;
+  marginLeft?: number;
+}
+
+// @page rule, one per selector of a selector list
+export interface PageRule {
+  selector: string;
+  name?: string;            // named page (@page chapter-open), or any page
+  pseudoClasses: string[];  // first, left, right, blank
+  specificity: number;
+  order: number;
+  box: PageBox;
+}
+
+// The page a page box is wanted for
+export interface PageSelector {
+  name?: string;            // from the CSS page property of the content
+  side: 'left' | 'right';
+  first: boolean;           // the document's first page
+  firstOfName?: boolean;    // the first page of a run of pages on the name
+}
+
+// Page sizes by keyword, portrait, in pt
+const PAGE_SIZE_KEYWORDS = new Map([
+  ['a5', { width: 419.53, height: 595.28 }],
+  ['a4', { width: 595.28, height: 841.89 }],
+  ['a3', { width: 841.89, height: 1190.55 }],
+  ['b5', { width: 498.9, height: 708.66 }],
+  ['b4', { width: 708.66, height: 1000.63 }],
+  ['jis-b5', { width: 515.91, height: 728.5 }],
+  ['jis-b4', { width: 728.5, height: 1031.81 }],
+  ['letter', { width: 612, height: 792 }],
+  ['legal', { width: 612, height: 1008 }],
+  ['ledger', { width: 792, height: 1224 }],
+]);
+
+// Named page, first page and left/right page selectors count in that order
+const PAGE_NAME_SPECIFICITY = 100;
+const PAGE_FIRST_SPECIFICITY = 10;
+const PAGE_SIDE_SPECIFICITY = 1;
+
+// @page properties read from the rule - margin boxes and marks are not drawn
+const PAGE_PROPERTIES = new Set(['size', 'margin', 'margin-top', 'margin-right', 'margin-bottom', 'margin-left']);
+
+/**
+ * Page size: a keyword (A5, letter) optionally turned by portrait or
+ * landscape, one length for a square page, or a width and height. 'auto'
+ * and an orientation alone leave the size to the converter.
+ */
+function convertPageSize(value: string): PageBox['size'] | null {
+  const [first, second] = value.toLowerCase().split(/\s+/);
+  const keywordSize = PAGE_SIZE_KEYWORDS.get(first) ?? PAGE_SIZE_KEYWORDS.get(second ?? '');
+  if (keywordSize) {
+    const isLandscape = first === 'landscape' || second === 'landscape';
+    return isLandscape ? { width: keywordSize.height, height: keywordSize.width } : { ...keywordSize };
+  }
+
+  const width = convertUnit(first);
+  const height = second === undefined ? width : convertUnit(second);
+  if (typeof width !== 'number' || typeof height !== 'number' || width <= 0 || height <= 0) return null;
+  return { width, height };
+}
+
+/**
+ * Page box from an @page rule's declarations. Only absolute lengths are
+ * read: em and % have nothing to refer to on the page.
+ */
+function parsePageBox(block: csstree.Block): PageBox {
+  const box: PageBox = {};
+  // Declarations of the margin boxes (@top-center) are not the page's
+  block.children.forEach(child => {
+    if (child.type !== 'Declaration') return;
+    const property = child.property.toLowerCase();
+    const value = csstree.generate(child.value).trim();
+    if (property === 'size') {
+      const size = convertPageSize(value);
+      if (size) box.size = size;
+    } else if (property === 'margin') {
+      const [top, right = top, bottom = top, left = right] = value.split(/\s+/).map(convertUnit);
+      Object.assign(box, { marginTop: top, marginRight: right, marginBottom: bottom, marginLeft: left });
+    } else if (PAGE_PROPERTIES.has(property)) {
+      box[camelCase(property) as 'marginTop'] = convertUnit(value) as number;
+    }
+  });
+
+  // Drop the margins that did not come out in pt
+  for (const side of ['marginTop', 'marginRight', 'marginBottom', 'marginLeft'] as const) {
+    if (typeof box[side] !== 'number') delete box[side];
+  }
+  return box;
+}
+
+/**
+ * Compile the selectors of an @page rule ("chapter-open:first, :left")
+ */
+function parsePageSelectors(prelude: string): { selector: string; name?: string; pseudoClasses: string[]; specificity: number }[] {
+  const selectors = prelude.trim() === '' ? [''] : prelude.split(',');
+  return selectors.flatMap(text => {
+    const match = text.trim().match(/^([A-Za-z_][\w-]*)?((?:\s*:[A-Za-z-]+)*)$/);
+    if (!match) return [];
+
+    const pseudoClasses = match[2].split(':').map(part => part.trim().toLowerCase()).filter(Boolean);
+    const specificity = (match[1] ? PAGE_NAME_SPECIFICITY : 0)
+      + pseudoClasses.filter(pseudo => pseudo === 'first' || pseudo === 'blank').length * PAGE_FIRST_SPECIFICITY
+      + pseudoClasses.filter(pseudo => pseudo === 'left' || pseudo === 'right').length * PAGE_SIDE_SPECIFICITY;
+    return [{ selector: `@page ${text.trim()}`.trim(), name: match[1], pseudoClasses, specificity }];
+  });
+}
+
+/**
+ * Whether an @page rule applies to a page. :first on a named page also
+ * matches the first page of each run on that name, as in print
+ * formatters. Blank pages are never asked for, so :blank rules do not apply.
  */
-function extractClassNames(selector: string): string[] {
-  const matches = selector.match(/\.([a-zA-Z0-9_-]+)/g);
-  if (!matches) return [];
-  return matches.map(m => m.slice(1));
+function pageRuleMatches(rule: PageRule, page: PageSelector): boolean {
+  if (rule.name !== undefined && rule.name !== page.name) return false;
+  const isFirst = page.first || (rule.name !== undefined && !!page.firstOfName);
+  return rule.pseudoClasses.every(pseudo =>
+    (pseudo === 'first' && isFirst) || pseudo === page.side
+  );
 }
 
 /**
- * Extract tag name from a selector
- * "p.subsq" -> "p", ".calibre3" -> null
+ * Cascade the @page rules that apply to a page, by specificity then
+ * source order
  */
-function extractTagName(selector: string): string | null {
-  const match = selector.match(/^([a-zA-Z][a-zA-Z0-9]*)/);
-  return match ? match[1].toLowerCase() : null;
+export function getPageBox(styleMap: StyleMap, page: PageSelector): PageBox {
+  return styleMap.pageRules
+    .filter(rule => pageRuleMatches(rule, page))
+    .sort((a, b) => a.specificity - b.specificity || a.order - b.order)
+    .reduce<PageBox>((box, rule) => ({ ...box, ...rule.box }), {});
 }
 
 // =============================================================================
 // STYLE MAP TYPES AND MAIN PARSER
 // =============================================================================
 
+// Rule of a stylesheet, one per selector of a selector list
+export interface StyleRule {
+  selector: string;
+  specificity: number;
+  order: number;                     // position in the document's CSS, later wins a tie
+  matches: ElementTest;
+  style: Record<string, any>;        // normal declarations
+  important: Record<string, any>;    // !important declarations
+}
+
 export interface StyleMap {
-  bySelector: Record<string, Record<string, any>>;
-  byClass: Record<string, Record<string, any>>;
-  byTag: Record<string, Record<string, any>>;
-  byTagClass: Record<string, Record<string, any>>;
+  rules: StyleRule[];                      // in source order
+  rulesByKey: Map<string, StyleRule[]>;    // by the #id, .class, tag or * a rule needs the element to have
+  pageRules: PageRule[];                   // @page rules, in source order
 }
 
 /**
@@ -638,66 +1222,61 @@ function mergeStyles(
   return merged;
 }
 
+/**
+ * Split a declaration block into its normal and !important declarations
+ */
+function parseDeclarations(cssText: string): { style: Record<string, any>; important: Record<string, any> } {
+  const normal: string[] = [];
+  const important: string[] = [];
+  for (const declaration of cssText.split(';')) {
+    (/!\s*important\s*$/i.test(declaration) ? important : normal).push(declaration);
+  }
+  return { style: parseDeclarationBlock(normal.join(';')), important: parseDeclarationBlock(important.join(';')) };
+}
+
 /**
  * Main function: Parse CSS text and return a StyleMap
  */
 export function parseCssToReactPdf(cssText: string): StyleMap {
   const styleMap: StyleMap = {
-    bySelector: {},
-    byClass: {},
-    byTag: {},
-    byTagClass: {},
+    rules: [],
+    rulesByKey: new Map(),
+    pageRules: [],
   };
 
-  function addToStyleMap(selector: string, style: Record<string, any>) {
-    const normalized = normalizeSelector(selector);
-
-    // Handle descendant selectors - use last part as target
-    const parts = normalized.split(/\s+/);
-    const targetPart = parts[parts.length - 1];
-
-    // By full selector (always)
-    styleMap.bySelector[normalized] = mergeStyles(styleMap.bySelector[normalized], style);
-
-    const classNames = extractClassNames(targetPart);
-    const tagName = extractTagName(targetPart);
-
-    // ONLY store in byClass if there's exactly ONE class (not compound selectors)
-    // This prevents p.subsq.continues-interrupted-paragraph from overwriting p.subsq
-    if (classNames.length === 1) {
-      styleMap.byClass[classNames[0]] = mergeStyles(styleMap.byClass[classNames[0]], style);
-    }
-
-    // By tag name (only if no classes)
-    if (tagName && classNames.length === 0) {
-      styleMap.byTag[tagName] = mergeStyles(styleMap.byTag[tagName], style);
-    }
-
-    // By tag.class combo (only if exactly one class)
-    if (tagName && classNames.length === 1) {
-      const key = `${tagName}.${classNames[0]}`;
-      styleMap.byTagClass[key] = mergeStyles(styleMap.byTagClass[key], style);
-    }
-  }
-
-  function processRule(node: any, mediaKey: string | null = null) {
-    if (node.type !== 'Rule' || !node.prelude || !node.block) return;
+  function processRule(node: csstree.Rule, mediaKey: string | null = null) {
+    if (node.prelude.type !== 'SelectorList' || !node.block) return;
 
-    const selectorText = csstree.generate(node.prelude);
     const declText = csstree.generate(node.block).replace(/^\{|\}$/g, '').trim();
-    
-    let style = parseDeclarationBlock(declText);
-    if (Object.keys(style).length === 0) return;
+    let { style, important } = parseDeclarations(declText);
+    if (Object.keys(style).length === 0 && Object.keys(important).length === 0) return;
 
     // Nest under media key if applicable
     if (mediaKey) {
       style = { [mediaKey]: style };
+      important = Object.keys(important).length > 0 ? { [mediaKey]: important } : {};
     }
 
-    // Handle comma-separated selectors
-    const selectors = selectorText.split(',').map(s => s.trim());
-    for (const selector of selectors) {
-      addToStyleMap(selector, style);
+    // Each selector of a list is a rule of its own, with its own specificity
+    for (const selector of node.prelude.children.toArray()) {
+      let compiled: CompiledSelector;
+      try {
+        compiled = compileSelector(selector as csstree.Selector);
+      } catch (err) {
+        if (err instanceof UnsupportedSelectorError) continue;  // checkCss reports it
+        throw err;
+      }
+
+      const rule: StyleRule = {
+        selector: normalizeSelector(csstree.generate(selector)),
+        specificity: compiled.specificity,
+        order: styleMap.rules.length,
+        matches: compiled.matches,
+        style,
+        important,
+      };
+      styleMap.rules.push(rule);
+      styleMap.rulesByKey.set(compiled.key, [...(styleMap.rulesByKey.get(compiled.key) || []), rule]);
     }
   }
 
@@ -706,8 +1285,7 @@ export function parseCssToReactPdf(cssText: string): StyleMap {
 
     csstree.walk(ast, {
       visit: 'Rule',
-      enter(node: any) {
-        // @ts-ignore - csstree types
+      enter(node: csstree.Rule) {
         const parent = this.atrule;
         if (parent && parent.name === 'media' && parent.prelude) {
           const mediaText = csstree.generate(parent.prelude);
@@ -718,56 +1296,308 @@ export function parseCssToReactPdf(cssText: string): StyleMap {
         }
       },
     });
+
+    csstree.walk(ast, {
+      visit: 'Atrule',
+      enter(node: csstree.Atrule) {
+        if (node.name.toLowerCase() !== 'page' || !node.block) return;
+        const box = parsePageBox(node.block);
+        for (const selector of parsePageSelectors(node.prelude ? csstree.generate(node.prelude) : '')) {
+          styleMap.pageRules.push({ ...selector, order: styleMap.pageRules.length, box });
+        }
+      },
+    });
+  } catch {
+    // Continue with the rules read so far - checkCss reports the error
+  }
+
+  return styleMap;
+}
+
+// =============================================================================
+// CSS DIAGNOSTICS
+// =============================================================================
+
+/**
+ * Report what the style map will not honour in a stylesheet: syntax errors,
+ * @import, media queries it ignores, selectors it cannot match, and
+ * unsupported properties (listed once per file)
+ */
+export function checkCss(cssText: string, source: string): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const ignoredProperties = new Set<string>();
+
+  try {
+    const ast = csstree.parse(cssText, {
+      onParseError(error) {
+        diagnostics.push({ severity: 'warning', source, message: `CSS syntax error skipped: ${error.message}` });
+      },
+    });
+
+    csstree.walk(ast, {
+      visit: 'Atrule',
+      enter(node: csstree.Atrule) {
+        const prelude = node.prelude ? csstree.generate(node.prelude) : '';
+        if (node.name === 'import') {
+          diagnostics.push({ severity: 'warning', source, message: `@import ${prelude} is not followed - link the stylesheet from the documents instead` });
+        } else if (node.name === 'media' && !convertMediaQuery(prelude)) {
+          diagnostics.push({ severity: 'info', source, message: `@media ${prelude} is not supported - its rules apply everywhere` });
+        } else if (node.name === 'page' && node.block) {
+          node.block.children.forEach(child => {
+            if (child.type === 'Atrule') {
+              diagnostics.push({ severity: 'info', source, message: `@page margin box @${child.name} is not drawn - running heads and page numbers are set by the converter` });
+            } else if (child.type === 'Declaration' && !PAGE_PROPERTIES.has(child.property.toLowerCase())) {
+              ignoredProperties.add(`${child.property.toLowerCase()} (@page)`);
+            }
+          });
+        }
+      },
+    });
+
+    csstree.walk(ast, {
+      visit: 'Rule',
+      enter(node: csstree.Rule) {
+        if (node.prelude.type === 'SelectorList') {
+          for (const selector of node.prelude.children.toArray()) {
+            const problem = checkSelector(selector as csstree.Selector);
+            if (problem) {
+              diagnostics.push({ severity: 'warning', source: normalizeSelector(csstree.generate(selector)), message: `${problem} (${source})` });
+            }
+          }
+        }
+
+        csstree.walk(node.block, {
+          visit: 'Declaration',
+          enter(declaration: csstree.Declaration) {
+            const property = declaration.property.toLowerCase();
+            if (!SUPPORTED_PROPERTIES.has(PROPERTY_MAP[property] || camelCase(property))) ignoredProperties.add(property);
+          },
+        });
+      },
+    });
   } catch (err) {
-    console.warn('CSS parsing error (continuing with empty styles):', err);
+    diagnostics.push({ severity: 'warning', source, message: `CSS could not be parsed - styles ignored: ${err}` });
   }
 
-  console.log('=== STYLE MAP ===');
-  console.log('byTag keys:', Object.keys(styleMap.byTag));
-  console.log('byClass keys:', Object.keys(styleMap.byClass).slice(0, 20), '...');
-  console.log('byTagClass keys:', Object.keys(styleMap.byTagClass).slice(0, 20), '...');
-  console.log('byTag[p]:', styleMap.byTag['p']);
-  console.log('byClass[subsq]:', styleMap.byClass['subsq']);
-  console.log('byTagClass[p.subsq]:', styleMap.byTagClass['p.subsq']);
+  if (ignoredProperties.size > 0) {
+    diagnostics.push({ severity: 'info', source, message: `Unsupported CSS properties ignored: ${[...ignoredProperties].sort().join(', ')}` });
+  }
+  return diagnostics;
+}
 
-  return styleMap;
+/**
+ * Why the cascade ignores a selector, if it does
+ */
+function checkSelector(selector: csstree.Selector): string | null {
+  try {
+    compileSelector(selector);
+    return null;
+  } catch (err) {
+    if (err instanceof UnsupportedSelectorError) return `${err.message} - its rule is ignored`;
+    throw err;
+  }
 }
 
 // =============================================================================
-// STYLE LOOKUP FUNCTIONS
+// @FONT-FACE RULES
 // =============================================================================
 
+export interface FontFaceRule {
+  family: string;
+  sources: string[];  // url() values in order of preference, relative to the stylesheet
+  fontWeight: number;
+  fontStyle: 'normal' | 'italic';
+}
+
+// Font registered with react-pdf, and the weights it has in each style
+export interface RegisteredFont {
+  family: string;   // react-pdf family name
+  name: string;     // family name as shown in diagnostics
+  weights: Record<'normal' | 'italic', number[]>;
+}
+
+export interface FontRegistry {
+  embedded: Map<string, RegisteredFont>;   // lower-case CSS family name -> font embedded in the EPUB
+  fallbacks: Map<string, RegisteredFont>;  // generic CSS family -> font it is printed with
+  defaultFont: RegisteredFont;             // for text naming no available family
+}
+
+// Generic CSS families - printed with their fallback (or the default font), no warning
+const GENERIC_FONT_FAMILIES = new Set([
+  'serif', 'sans-serif', 'monospace', 'cursive', 'fantasy', 'system-ui', 'ui-serif', 'ui-sans-serif', 'ui-monospace',
+]);
+
 /**
- * Get styles for an element by tag name and class list
- * Applies specificity: tag < class < tag.class
+ * Read the @font-face rules from a stylesheet. A rule without a family or a
+ * url() source cannot be embedded and is reported.
  */
-export function getStylesForElement(
-  styleMap: StyleMap,
-  tagName: string,
-  classList: string[]
-): Record<string, any> {
-  let merged: Record<string, any> = {};
-  const tagLower = tagName.toLowerCase();
+export function parseFontFaces(cssText: string, source: string, diagnostics: Diagnostic[]): FontFaceRule[] {
+  const rules: FontFaceRule[] = [];
 
-  // 1. Tag styles (lowest specificity)
-  if (styleMap.byTag[tagLower]) {
-    merged = { ...merged, ...styleMap.byTag[tagLower] };
+  try {
+    const ast = csstree.parse(cssText);
+
+    csstree.walk(ast, {
+      visit: 'Atrule',
+      enter(node: csstree.Atrule) {
+        if (node.name.toLowerCase() !== 'font-face' || !node.block) return;
+
+        const declarations: Record<string, string> = {};
+        const sources: string[] = [];
+        csstree.walk(node.block, {
+          visit: 'Declaration',
+          enter(declaration: csstree.Declaration) {
+            declarations[declaration.property.toLowerCase()] = csstree.generate(declaration.value);
+            if (declaration.property.toLowerCase() === 'src') {
+              csstree.walk(declaration.value, {
+                visit: 'Url',
+                enter(url: csstree.Url) {
+                  sources.push(url.value);
+                },
+              });
+            }
+          },
+        });
+
+        const family = splitFontFamilies(declarations['font-family'] || '')[0];
+        if (!family || sources.length === 0) {
+          diagnostics.push({
+            severity: 'warning',
+            source,
+            message: `@font-face ${family ? `"${family}" has no url() source` : 'has no font-family'} - the font is not embedded`,
+          });
+          return;
+        }
+
+        const weight = (declarations['font-weight'] || 'normal').split(/\s+/)[0].toLowerCase();
+        rules.push({
+          family,
+          sources,
+          fontWeight: weight === 'bold' ? 700 : parseInt(weight, 10) || 400,
+          fontStyle: /italic|oblique/i.test(declarations['font-style'] || '') ? 'italic' : 'normal',
+        });
+      },
+    });
+  } catch (err) {
+    diagnostics.push({ severity: 'warning', source, message: `@font-face rules could not be read - embedded fonts skipped: ${err}` });
   }
 
-  // 2. Class styles
-  for (const className of classList) {
-    if (styleMap.byClass[className]) {
-      merged = { ...merged, ...styleMap.byClass[className] };
+  return rules;
+}
+
+/**
+ * '"Lobster Two", Georgia, serif' -> ['Lobster Two', 'Georgia', 'serif']
+ */
+export function splitFontFamilies(value: string): string[] {
+  return value
+    .split(',')
+    .map(family => family.trim().replace(/^["']|["']$/g, '').trim())
+    .filter(family => family.length > 0);
+}
+
+/**
+ * Nearest of a font's weights; on a tie the heavier one for bold weights
+ * (above 500) and the lighter one otherwise, as browsers choose
+ */
+function snapFontWeight(weight: number, weights: number[]): number {
+  return weights.reduce((best, candidate) => {
+    const difference = Math.abs(candidate - weight) - Math.abs(best - weight);
+    if (difference !== 0) return difference < 0 ? candidate : best;
+    return weight > 500 === candidate > best ? candidate : best;
+  }, weights[0] ?? weight);
+}
+
+/**
+ * Resolve the font properties of the style maps and style="" styles against
+ * the registry. Each CSS font-family list becomes the first family that is
+ * embedded or generic, or the default font; named families that are missing
+ * are reported once each, as diagnostics. Numeric weights snap to the
+ * nearest face of the resolved family (the default font's when none is set).
+ */
+export function resolveFonts(
+  styleMaps: StyleMap[],
+  registry: FontRegistry,
+  inlineStyles: Record<string, unknown>[],
+  diagnostics: Diagnostic[]
+): void {
+  const reported = new Set<string>();
+  const registeredFonts = new Map(
+    [registry.defaultFont, ...registry.fallbacks.values(), ...registry.embedded.values()].map(font => [font.family, font])
+  );
+
+  const resolveFamily = (value: string, source: string): RegisteredFont => {
+    const families = splitFontFamilies(value);
+    for (const family of families) {
+      const key = family.toLowerCase();
+      const embedded = registry.embedded.get(key);
+      if (embedded) return embedded;
+      if (!GENERIC_FONT_FAMILIES.has(key)) continue;
+
+      const fallback = registry.fallbacks.get(key) || registry.defaultFont;
+      const named = families.find(name => !GENERIC_FONT_FAMILIES.has(name.toLowerCase()));
+      if (named && !reported.has(named)) {
+        reported.add(named);
+        diagnostics.push({ severity: 'warning', source, message: `Font "${named}" is not embedded in the EPUB - using ${fallback.name}` });
+      }
+      return fallback;
+    }
+
+    if (families.length > 0 && !reported.has(families[0])) {
+      reported.add(families[0]);
+      diagnostics.push({ severity: 'warning', source, message: `Font "${families[0]}" is not embedded in the EPUB - using ${registry.defaultFont.name}` });
     }
-  }
+    return registry.defaultFont;
+  };
+
+  const resolveStyle = (style: Record<string, unknown>, source: string) => {
+    for (const [key, value] of Object.entries(style)) {
+      if (key.startsWith('@media') && typeof value === 'object' && value !== null) {
+        resolveStyle(value as Record<string, unknown>, source);
+      }
+    }
+
+    // Rules of one selector list share their styles - resolving twice changes nothing
+    if (typeof style.fontFamily === 'string' && !registeredFonts.has(style.fontFamily)) {
+      style.fontFamily = resolveFamily(style.fontFamily, source).family;
+    }
+    if (typeof style.fontWeight === 'number') {
+      const font = registeredFonts.get(style.fontFamily as string) || registry.defaultFont;
+      style.fontWeight = snapFontWeight(style.fontWeight, font.weights[style.fontStyle === 'italic' ? 'italic' : 'normal']);
+    }
+  };
 
-  // 3. Tag.class combos (highest specificity)
-  for (const className of classList) {
-    const key = `${tagLower}.${className}`;
-    if (styleMap.byTagClass[key]) {
-      merged = { ...merged, ...styleMap.byTagClass[key] };
+  for (const styleMap of styleMaps) {
+    for (const rule of styleMap.rules) {
+      resolveStyle(rule.style, rule.selector);
+      resolveStyle(rule.important, rule.selector);
     }
   }
+  inlineStyles.forEach(style => resolveStyle(style, 'style attribute'));
+}
+
+// =============================================================================
+// STYLE LOOKUP FUNCTIONS
+// =============================================================================
+
+/**
+ * Cascade the rules matching an element the way a browser does: by
+ * specificity, then source order; the style attribute over normal
+ * declarations, and !important declarations over both
+ */
+export function getStylesForElement(styleMap: StyleMap, path: ElementPath): Record<string, any> {
+  const { node } = path;
+  const keys = new Set(['*', node.tagName.toLowerCase(), ...node.classNames.map(name => `.${name}`)]);
+  if (node.attributes.id) keys.add(`#${node.attributes.id}`);
+
+  const matched = [...keys]
+    .flatMap(key => styleMap.rulesByKey.get(key) || [])
+    .filter(rule => rule.matches(path))
+    .sort((a, b) => a.specificity - b.specificity || a.order - b.order);
+
+  let merged: Record<string, any> = {};
+  for (const rule of matched) merged = mergeStyles(merged, rule.style);
+  if (node.style) merged = mergeStyles(merged, node.style);
+  for (const rule of matched) merged = mergeStyles(merged, rule.important);
 
   return merged;
 }
@@ -777,7 +1607,129 @@ export function getStylesForElement(
  */
 export function createStyleLookup(cssText: string) {
   const styleMap = parseCssToReactPdf(cssText);
-  return (tagName: string, classList: string[]) => getStylesForElement(styleMap, tagName, classList);
+  return (path: ElementPath) => getStylesForElement(styleMap, path);
+}
+
+// =============================================================================
+// COMPUTED STYLES
+// =============================================================================
+
+// Properties an element takes from its parent unless it sets them
+const INHERITED_PROPERTIES = [
+  'color', 'fontFamily', 'fontSize', 'fontStyle', 'fontWeight', 'fontVariant',
+  'letterSpacing', 'lineHeight', 'textAlign', 'textIndent', 'textTransform',
+  'orphans', 'widows',
+];
+
+// Properties whose percentages refer to the width of the containing block
+const BLOCK_PERCENT_PROPERTIES = new Set([
+  'margin', 'marginHorizontal', 'marginVertical', 'marginTop', 'marginRight', 'marginBottom', 'marginLeft',
+  'padding', 'paddingHorizontal', 'paddingVertical', 'paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft',
+  'textIndent', 'width', 'minWidth', 'maxWidth',
+]);
+
+// What an element passes down to its content
+export interface ParentStyle {
+  inherited: Record<string, any>;  // computed values of the inherited properties (fontSize always set)
+  rootFontSize: number;            // font size of the html element, for rem
+  blockWidth: number;              // width of the content box, for %
+}
+
+/**
+ * Style of the content of a page area with the given font size and width,
+ * before any element's CSS
+ */
+export function getInitialStyle(fontSize: number, blockWidth: number): ParentStyle {
+  return { inherited: { fontSize }, rootFontSize: fontSize, blockWidth };
+}
+
+/**
+ * Resolve an em, rem or % length to pt; % only when a block width is given
+ */
+function resolveLength(value: unknown, fontSize: number, rootFontSize: number, blockWidth?: number): unknown {
+  if (typeof value !== 'string') return value;
+  const match = value.match(/^(-?\d*\.?\d+)(em|rem|%)$/);
+  if (!match) return value;
+
+  const amount = parseFloat(match[1]);
+  if (match[2] === 'em') return amount * fontSize;
+  if (match[2] === 'rem') return amount * rootFontSize;
+  return blockWidth !== undefined ? (amount / 100) * blockWidth : value;
+}
+
+/**
+ * Line height in pt: a plain number and % scale the font size
+ */
+function resolveLineHeight(value: unknown, fontSize: number, rootFontSize: number): string | undefined {
+  if (typeof value === 'number') return `${value * fontSize}pt`;
+  if (typeof value !== 'string') return undefined;
+  if (value.endsWith('%')) return `${(parseFloat(value) / 100) * fontSize}pt`;
+
+  const length = resolveLength(value, fontSize, rootFontSize);
+  if (typeof length === 'number') return `${length}pt`;
+  return value.endsWith('pt') ? value : undefined;
+}
+
+/**
+ * Left plus right of a box property, from whichever of its longhand and
+ * shorthand forms are set (lengths already in pt)
+ */
+function getHorizontalSpace(style: Record<string, unknown>, property: 'margin' | 'padding'): number {
+  const side = (name: string) => {
+    const value = style[`${property}${name}`] ?? style[`${property}Horizontal`] ?? style[property];
+    return typeof value === 'number' ? value : 0;
+  };
+  return side('Left') + side('Right');
+}
+
+/**
+ * Compute an element's style from its parent's, the way CSS does: em
+ * font sizes against the parent's font size and other em lengths against
+ * the element's own, rem against the html element's, and % margins,
+ * paddings, indents and widths against the containing block. Returns the
+ * element's own properties, computed, and what its content inherits. Line
+ * heights given as a plain number are inherited as the factor, so text set
+ * larger keeps its proportions.
+ */
+export function computeStyle(specified: Record<string, unknown>, parent: ParentStyle): { style: Record<string, any>; content: ParentStyle } {
+  const { rootFontSize } = parent;
+  const parentFontSize: number = parent.inherited.fontSize;
+  const specifiedSize = resolveLength(specified.fontSize, parentFontSize, rootFontSize);
+  const fontSize = typeof specifiedSize === 'number' ? specifiedSize : parentFontSize;
+
+  const style: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(specified)) {
+    if (key === 'lineHeight') style[key] = value;
+    else style[key] = resolveLength(value, fontSize, rootFontSize, BLOCK_PERCENT_PROPERTIES.has(key) ? parent.blockWidth : undefined);
+  }
+  if (specified.fontSize !== undefined) style.fontSize = fontSize;
+
+  const inherited = { ...parent.inherited };
+  for (const property of INHERITED_PROPERTIES) {
+    if (style[property] !== undefined) inherited[property] = style[property];
+  }
+  inherited.fontSize = fontSize;
+
+  // A factor is inherited as it is; other line heights as the length they compute to
+  const lineHeight = resolveLineHeight(inherited.lineHeight, fontSize, rootFontSize);
+  if (lineHeight !== undefined) {
+    style.lineHeight = lineHeight;
+    if (typeof inherited.lineHeight !== 'number') inherited.lineHeight = lineHeight;
+  } else {
+    delete style.lineHeight;
+    delete inherited.lineHeight;
+  }
+
+  // Borders are drawn inside react-pdf's width, paddings too
+  const borderWidth = (side: string) => {
+    const value = style[`border${side}Width`] ?? style.borderWidth;
+    return typeof value === 'number' ? value : 0;
+  };
+  const blockWidth = typeof style.width === 'number'
+    ? style.width - getHorizontalSpace(style, 'padding') - borderWidth('Left') - borderWidth('Right')
+    : parent.blockWidth - getHorizontalSpace(style, 'margin') - getHorizontalSpace(style, 'padding') - borderWidth('Left') - borderWidth('Right');
+
+  return { style, content: { inherited, rootFontSize, blockWidth: Math.max(0, blockWidth) } };
 }
 
 // =============================================================================
@@ -795,17 +1747,25 @@ export const DEFAULT_STYLES: Record<string, Record<string, any>> = {
   i: { fontStyle: 'italic' },
   strong: { fontWeight: 'bold' },
   b: { fontWeight: 'bold' },
+  cite: { fontStyle: 'italic' },
+  dfn: { fontStyle: 'italic' },
+  var: { fontStyle: 'italic' },
+  sup: { verticalAlign: 'super', fontSize: 7 },
+  sub: { verticalAlign: 'sub', fontSize: 7 },
+  small: { fontSize: 9 },
+  u: { textDecoration: 'underline' },
+  ins: { textDecoration: 'underline' },
+  s: { textDecoration: 'line-through' },
+  strike: { textDecoration: 'line-through' },
+  del: { textDecoration: 'line-through' },
+  th: { fontWeight: 'bold' },
 };
 
 /**
  * Get styles with fallbacks to defaults
  */
-export function getStylesWithDefaults(
-  styleMap: StyleMap,
-  tagName: string,
-  classList: string[]
-): Record<string, any> {
-  const fromCss = getStylesForElement(styleMap, tagName, classList);
-  const defaults = DEFAULT_STYLES[tagName.toLowerCase()] || {};
+export function getStylesWithDefaults(styleMap: StyleMap, path: ElementPath): Record<string, any> {
+  const fromCss = getStylesForElement(styleMap, path);
+  const defaults = DEFAULT_STYLES[path.node.tagName.toLowerCase()] || {};
   return { ...defaults, ...fromCss };
 }
@@ -0,0 +1,32 @@
+/**
+ * Conversion diagnostics
+ *
+ * Problems found while reading the EPUB or laying out the PDF: content left
+ * out, styles dropped, fonts replaced. They are returned with the PDF so the
+ * EPUB can be fixed before printing.
+ */
+
+// error: content is missing from the PDF
+// warning: content is printed, but not the way the EPUB asks
+// info: worth knowing, nothing is lost
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export interface Diagnostic {
+  severity: DiagnosticSeverity;
+  source: string;   // zip path of the file, or the CSS selector, it is about
+  message: string;
+}
+
+/**
+ * Drop repeated diagnostics (the same stylesheet linked from many chapters,
+ * the same font missing everywhere), keeping the first of each
+ */
+export function dedupeDiagnostics(diagnostics: Diagnostic[]): Diagnostic[] {
+  const seen = new Set<string>();
+  return diagnostics.filter(({ severity, source, message }) => {
+    const key = `${severity}|${source}|${message}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
@@ -1,16 +1,68 @@
 import JSZip from 'jszip';
-import { parseCssToReactPdf, StyleMap } from './cssToReactPdf';
+import { inflateSync } from 'zlib';
+import { parseDocument, DomUtils } from 'htmlparser2';
+import { Element, Text, isCDATA, isTag, isText } from 'domhandler';
+import type { ChildNode, Document, ParentNode } from 'domhandler';
+import { parseCssToReactPdf, parseDeclarationBlock, parseFontFaces, checkCss, getChildPaths, getStylesForElement, StyleMap } from './cssToReactPdf';
+import type { ElementPath, StyledNode } from './cssToReactPdf';
+import type { Diagnostic } from './diagnostics';
 
 // =============================================================================
 // CONTENT NODE - Tree structure for HTML content
 // =============================================================================
 
 export interface ContentNode {
-  type: 'container' | 'text';
-  tagName: string;
+  type: 'container' | 'text' | 'heading' | 'image' | 'list' | 'table' | 'table-row' | 'table-cell' | 'scene-break';
+  tagName: string;          // '#text' for anonymous text - bare text beside blocks, not an element
   classNames: string[];
-  text?: string;            // for text nodes only
+  id?: string;
+  attributes: Record<string, string>;  // all source attributes, as written
+  style?: Record<string, unknown>;      // style="" attribute, converted to react-pdf
+  anchors?: string[];       // link destinations: ids of the element and inline elements in it,
+                            // resolved to zip path#id (a document's body also gets the bare zip path)
+  text?: string;            // for text/heading nodes (plain text, formatting stripped)
+  runs?: InlineRun[];       // for text/heading nodes (inline formatting preserved)
+  level?: number;           // for headings only (1-6)
   children?: ContentNode[]; // for containers only
+  src?: string;             // for images and image scene breaks (zip path, resolved against the chapter)
+  alt?: string;             // for images only
+  list?: ListInfo;          // for lists only (children are mostly li nodes)
+  isHeader?: boolean;       // for table rows only (thead, or leading rows of th cells)
+  section?: TableSection;   // for table rows in a thead, tbody or tfoot - shared by the section's rows
+  colSpan?: number;         // for table cells only
+}
+
+// Numbering for ul/ol, from the start/reversed/type attributes
+export interface ListInfo {
+  ordered: boolean;
+  start: number;            // number of the first item
+  reversed: boolean;
+  markerType?: string;      // CSS list-style-type equivalent of the type attribute
+}
+
+// thead, tbody or tfoot around table rows: not rendered, but matched by the CSS
+export type TableSection = Pick<ContentNode, 'tagName' | 'classNames' | 'id' | 'attributes' | 'style'>;
+
+// Inline run inside a text node - em, strong, sup, classed span, etc.
+export interface InlineRun {
+  tagName: string;          // '#text' for bare text between inline elements
+  classNames: string[];
+  id?: string;
+  attributes: Record<string, string>;
+  style?: Record<string, unknown>;  // style="" attribute, converted to react-pdf
+  text?: string;            // for '#text' runs only
+  children?: InlineRun[];   // for inline elements only
+  noteRef?: string;         // for note references only: key into ParsedEpub.notes
+  target?: string;          // for links into the book: zip path, with #id if it has one
+  url?: string;             // for links out of the book (http, https, mailto)
+}
+
+// Footnote or endnote, lifted out of the running text
+export interface Note {
+  id: string;               // zip path#id - what note references point at
+  kind: 'footnote' | 'endnote';
+  content: ContentNode;     // the note element, backlinks removed
+  styleMap: StyleMap;       // CSS of the document the note came from
 }
 
 // Keep StyledElement for backwards compatibility (used in convert.tsx)
@@ -20,18 +72,115 @@ export interface StyledElement {
   classNames: string[];
 }
 
+// What a spine document is: from landmarks/guide, epub:type or its title
+export type PageRole =
+  | 'cover' | 'titlepage' | 'copyright' | 'toc' | 'dedication' | 'epigraph'
+  | 'foreword' | 'preface' | 'introduction' | 'prologue' | 'frontmatter'
+  | 'chapter'
+  | 'epilogue' | 'afterword' | 'acknowledgments' | 'appendix' | 'notes' | 'glossary'
+  | 'bibliography' | 'index' | 'colophon' | 'about-author' | 'also-by' | 'backmatter';
+
 export interface Chapter {
   title: string;
+  path: string;          // zip path of the spine document
+  heading: ChapterHeading;  // the title split into the lines of a chapter opener
   content: ContentNode;  // tree root
-  type: 'titlepage' | 'frontmatter' | 'chapter' | 'backmatter';
+  type: 'titlepage' | 'frontmatter' | 'chapter' | 'backmatter';  // part of the book it is printed in
+  role: PageRole;
+  styleMap: StyleMap;    // CSS the document links plus its own <style> blocks
   author?: string;
 }
 
+// Chapter heading split into its parts: "Chapter Twelve" / "The Long Night" / subtitle
+export interface ChapterHeading {
+  label?: string;     // number line as written: "Chapter Twelve", "12", "XII"
+  number?: number;    // value of the label's number, however it is written
+  title?: string;
+  subtitle?: string;
+  paths?: Partial<Record<HeadingPartKind, ElementPath>>;  // elements the parts are set in, for their CSS
+}
+
+// Raster image read from the EPUB (react-pdf only embeds PNG and JPEG)
+export interface EpubImage {
+  data: Uint8Array;
+  format: 'png' | 'jpg';
+  width: number;   // intrinsic size in pixels
+  height: number;
+}
+
+// Font face embedded in the EPUB and named by an @font-face rule
+export interface EpubFont {
+  family: string;        // CSS font-family name, as written
+  fontWeight: number;
+  fontStyle: 'normal' | 'italic';
+  path: string;          // zip path
+  data: Uint8Array;      // TrueType, OpenType, WOFF or WOFF2
+}
+
+// Entry in the author's table of contents (nav.xhtml or toc.ncx)
+export interface NavPoint {
+  label: string;
+  href: string;          // zip path, with #fragment if the entry has one
+  children: NavPoint[];  // e.g. parts > chapters > sections
+}
+
+// Creator or contributor from the OPF (dc:creator / dc:contributor)
+export interface EpubContributor {
+  name: string;
+  role?: string;         // MARC relator code: aut, edt, ill, trl, ...
+  fileAs?: string;       // sort form, e.g. "Tolkien, J. R. R."
+}
+
+export interface EpubIdentifier {
+  value: string;
+  scheme?: string;       // ISBN, UUID, ASIN, ... (upper case)
+}
+
+// Package metadata from the OPF <metadata> element
+export interface EpubMetadata {
+  title: string;
+  subtitle?: string;
+  creators: EpubContributor[];
+  contributors: EpubContributor[];
+  publisher?: string;
+  date?: string;
+  language?: string;
+  rights?: string;
+  description?: string;  // plain text, markup stripped
+  identifiers: EpubIdentifier[];
+  uniqueIdentifier?: string;  // value of the identifier named by <package unique-identifier>
+  series?: string;
+  seriesIndex?: number;
+}
+
 export interface ParsedEpub {
   title: string;
   author: string;
+  metadata: EpubMetadata;
   chapters: Chapter[];
-  styleMap: StyleMap;
+  toc: NavPoint[];
+  notes: Map<string, Note>;  // keyed by zip path#id
+  styleMaps: StyleMap[];     // one per distinct document CSS, shared by chapters and notes
+  images: Map<string, EpubImage>;  // keyed by zip path
+  fonts: EpubFont[];
+  diagnostics: Diagnostic[];       // what could not be read or will not print as written
+}
+
+interface SpineItem {
+  id: string;       // manifest item id
+  linear: boolean;  // false for linear="no" (supplementary content)
+}
+
+// Landmarks nav entry or OPF guide reference
+interface Landmark {
+  type: string;  // epub:type or guide type, e.g. "copyright-page"
+  href: string;
+}
+
+interface ManifestItem {
+  href: string;
+  mediaType: string;
+  properties: string[];  // EPUB 3 item properties (nav, cover-image, ...)
 }
 
 // =============================================================================
@@ -39,9 +188,10 @@ export interface ParsedEpub {
 // =============================================================================
 
 /**
- * Parse an EPUB file and extract its content
+ * Parse an EPUB file and extract its content. A print stylesheet, if given,
+ * follows every document's own CSS, so its rules win ties.
  */
-export async function parseEpub(epubData: Uint8Array): Promise<ParsedEpub> {
+export async function parseEpub(epubData: Uint8Array, printCss?: string): Promise<ParsedEpub> {
   const zip = await JSZip.loadAsync(epubData);
 
   // 1. Read container.xml to find OPF file path
@@ -63,433 +213,2170 @@ export async function parseEpub(epubData: Uint8Array): Promise<ParsedEpub> {
     throw new Error(`Invalid EPUB: could not read OPF file at ${opfPath}`);
   }
 
-  const { title, author, spineItems, manifest } = parseOpf(opfContent);
+  const { metadata, spineItems, tocId, manifest, guide } = parseOpf(opfContent);
+  const diagnostics: Diagnostic[] = [];
+  checkManifest(zip, opfDir, opfPath, manifest, spineItems, diagnostics);
 
-  // 3. Extract and parse CSS
-  const cssText = await extractCss(zip, opfDir, manifest);
-  console.log('=== EXTRACTED CSS ===');
-  console.log('CSS length:', cssText.length);
-  console.log('First 500 chars:', cssText.substring(0, 500));
-  const styleMap = parseCssToReactPdf(cssText);
+  // 3. Undo font obfuscation listed in encryption.xml (rejects DRM)
+  await undoFontObfuscation(zip, metadata, diagnostics);
 
-  // 4. Read each chapter in spine order
-  const chapters: Chapter[] = [];
+  // 4. Read the CSS files; each document is styled by the ones it links
+  const stylesheets: StylesheetCache = { files: await extractCss(zip, opfDir, manifest), printCss, styleMaps: new Map() };
+  for (const [cssPath, cssText] of stylesheets.files) {
+    diagnostics.push(...checkCss(cssText, cssPath));
+  }
+  if (printCss !== undefined) {
+    diagnostics.push(...checkCss(printCss, 'print stylesheet'));
+  }
 
-  for (const itemId of spineItems) {
-    const item = manifest.get(itemId);
+  // 5. Read images
+  const damagedImages = new Set<string>();
+  const images = await extractImages(zip, opfDir, manifest, damagedImages);
+
+  // 6. Read fonts named by @font-face rules
+  const fonts = await extractFonts(zip, opfDir, manifest, diagnostics);
+
+  // 7. Read the table of contents (EPUB 3 nav, else EPUB 2 NCX),
+  //    and the page types declared by the landmarks nav or the OPF guide
+  const toc = await extractToc(zip, opfDir, manifest, tocId);
+  const landmarks = await extractLandmarks(zip, opfDir, manifest);
+  const declaredTypes = getDeclaredPageTypes([
+    ...landmarks,
+    ...guide.map(reference => ({ type: reference.type, href: resolveZipHref(opfPath, reference.href) })),
+  ]);
+
+  // 8. Read spine documents, and find which elements are referenced as notes
+  const spineDocuments: { path: string; html: string; linear: boolean }[] = [];
+  for (const spineItem of spineItems) {
+    const item = manifest.get(spineItem.id);
     if (!item) continue;
 
     const chapterPath = opfDir + item.href;
     const chapterContent = await zip.file(chapterPath)?.async('text');
-
     if (chapterContent) {
-      const { chapterTitle, contentTree, pageType, author: chapterAuthor } = parseHtmlToTree(chapterContent);
-
-      // Only include if there's content or it's a title page
-      if (hasTextContent(contentTree) || pageType === 'titlepage') {
-        chapters.push({
-          title: chapterTitle || `Chapter ${chapters.length + 1}`,
-          content: contentTree,
-          type: pageType,
-          author: chapterAuthor,
+      spineDocuments.push({ path: chapterPath, html: chapterContent, linear: spineItem.linear });
+    }
+  }
+
+  const noteReferences = collectNoteReferences(spineDocuments);
+  const notes = new Map<string, Note>();
+
+  // Landmarks can mark where body matter and back matter begin
+  const bodyStart = spineDocuments.findIndex(doc => ['bodymatter', 'text'].includes(declaredTypes.get(doc.path) ?? ''));
+  const backStart = spineDocuments.findIndex(doc => declaredTypes.get(doc.path) === 'backmatter');
+
+  // 9. Parse each chapter in spine order
+  const chapters: Chapter[] = [];
+
+  for (const [index, { path: chapterPath, html: chapterContent, linear }] of spineDocuments.entries()) {
+    const declaredRole = STRUCTURAL_ROLES[declaredTypes.get(chapterPath) ?? ''];
+    const { chapterTitle, chapterHeading, titleHeadings, contentTree, styleMap, typedRole, author: chapterAuthor, notes: chapterNotes } =
+      parseHtmlToTree(chapterContent, chapterPath, noteReferences, stylesheets, diagnostics, declaredRole);
+    resolveReferences(contentTree, chapterPath, noteReferences.targets);
+    titleHeadings.forEach(heading => resolveReferences(heading, chapterPath, noteReferences.targets));
+
+    for (const note of chapterNotes) {
+      resolveReferences(note.content, chapterPath, noteReferences.targets);
+      notes.set(note.id, note);
+    }
+
+    // Items outside the reading order (linear="no") - a nav document, pop-up
+    // content - are left out of the printed book, whatever their type; the
+    // notes the text references were lifted out of them above
+    if (!linear) {
+      if (hasContent(contentTree)) {
+        diagnostics.push({
+          severity: 'info',
+          source: chapterPath,
+          message: 'Not in the reading order (linear="no") - left out of the printed book',
+        });
+      }
+      continue;
+    }
+
+    const navLabel = findNavLabel(toc, chapterPath);
+
+    // Converters split long chapters (Calibre's _split_001, Scrivener's scenes)
+    // into several spine files; a file with no heading or TOC entry of its own,
+    // or whose TOC entry sits under the previous chapter's, continues that chapter
+    const previous = chapters[chapters.length - 1];
+    const isContinuation = !!previous
+      && !declaredRole && !typedRole
+      && (previous.type === 'chapter' || previous.type === 'backmatter')
+      && ((titleHeadings.length === 0 && !navLabel) || isNestedNavEntry(toc, previous.path, chapterPath));
+    if (isContinuation) {
+      // A subsection's heading stays in the text as a subhead; the body is
+      // kept as a container so links to the file still have somewhere to land
+      contentTree.children = [...titleHeadings, ...(contentTree.children || [])];
+      contentTree.anchors = [chapterPath, ...(contentTree.anchors || [])];
+      previous.content.children = [...(previous.content.children || []), contentTree];
+      continue;
+    }
+
+    // The heading the author set is the printed title; the TOC label stands in
+    // for a file without one, ahead of its <title>, and lends it a number
+    const title = (titleHeadings.length > 0 ? chapterTitle : '') || navLabel || chapterTitle;
+    // Declared and typed roles win; the landmark ranges only fix the part
+    // of the book, which a matching title can narrow down
+    const sectionRole: PageRole | undefined =
+      bodyStart > 0 && index < bodyStart ? 'frontmatter'
+      : backStart >= 0 && index >= backStart ? 'backmatter'
+      : undefined;
+    const titleRole = getRoleFromTitle(chapterTitle) ?? getRoleFromTitle(title);
+    const guessedRole = sectionRole && (!titleRole || ROLE_SECTIONS[titleRole] !== ROLE_SECTIONS[sectionRole])
+      ? sectionRole
+      : titleRole;
+    const role = declaredRole ?? typedRole ?? guessedRole ?? 'chapter';
+
+    // Only include if there's content or it's a title page
+    if (hasContent(contentTree) || role === 'titlepage') {
+      // Links to the file or to its title heading land on the chapter opening
+      contentTree.anchors = [chapterPath, ...(contentTree.anchors || []), ...titleHeadings.flatMap(heading => heading.anchors || [])];
+      if (!title && role !== 'titlepage') {
+        diagnostics.push({
+          severity: 'info',
+          source: chapterPath,
+          message: `No heading or table of contents entry - printed as "Chapter ${chapters.length + 1}"`,
         });
       }
+      const fullTitle = title || `Chapter ${chapters.length + 1}`;
+      chapters.push({
+        title: fullTitle,
+        path: chapterPath,
+        heading: withNavLabelNumber(chapterHeading ?? splitChapterHeading([{ text: fullTitle }]), navLabel),
+        content: contentTree,
+        type: ROLE_SECTIONS[role],
+        role,
+        styleMap,
+        author: chapterAuthor,
+      });
     }
   }
 
   return {
-    title: title || 'Untitled',
-    author: author || 'Unknown Author',
+    title: metadata.title || 'Untitled',
+    author: getPrimaryAuthor(metadata) || 'Unknown Author',
+    metadata,
     chapters,
-    styleMap,
+    toc,
+    notes,
+    styleMaps: [...stylesheets.styleMaps.values()],
+    images,
+    fonts,
+    diagnostics: [...diagnostics, ...findMissingImages(zip, chapters, notes, images, damagedImages)],
   };
 }
 
 /**
- * Check if a content tree has any text
+ * Check if a content tree has any text or images
  */
-function hasTextContent(node: ContentNode): boolean {
-  if (node.type === 'text' && node.text && node.text.trim().length > 0) {
+function hasContent(node: ContentNode): boolean {
+  if ((node.type === 'text' || node.type === 'heading') && node.text && node.text.trim().length > 0) {
+    return true;
+  }
+  if (node.type === 'image') {
     return true;
   }
   if (node.children) {
-    return node.children.some(child => hasTextContent(child));
+    return node.children.some(child => hasContent(child));
   }
   return false;
 }
 
-// =============================================================================
-// CSS EXTRACTION
-// =============================================================================
+// Links with a scheme leave the book; only these are worth keeping
+const URL_SCHEME = /^[a-z][a-z0-9+.-]*:/i;
+const EXTERNAL_LINK = /^(https?|mailto):/i;
 
 /**
- * Extract all CSS from EPUB
+ * Resolve image src attributes and element ids against the chapter's path
+ * inside the zip, mark links that point at a note as note references, and
+ * resolve other links to their target in the book or their web address
  */
-async function extractCss(
-  zip: JSZip,
-  opfDir: string,
-  manifest: Map<string, { href: string; mediaType: string }>
-): Promise<string> {
-  let combinedCss = '';
+function resolveReferences(node: ContentNode, chapterPath: string, noteTargets: Set<string>): void {
+  if (node.src) {
+    node.src = resolveZipPath(chapterPath, node.src);
+  }
 
-  for (const [, item] of manifest) {
-    if (item.mediaType === 'text/css' || item.href.endsWith('.css')) {
-      const cssPath = opfDir + item.href;
-      const cssContent = await zip.file(cssPath)?.async('text');
-      if (cssContent) {
-        combinedCss += cssContent + '\n';
+  const ids = [node.id, ...(node.anchors || [])].filter((id): id is string => !!id);
+  node.anchors = ids.length > 0 ? ids.map(id => `${chapterPath}#${id}`) : undefined;
+
+  const resolveRuns = (runs: InlineRun[]) => {
+    for (const run of runs) {
+      const href = run.tagName === 'a' ? run.attributes.href?.trim() : undefined;
+      if (href && URL_SCHEME.test(href)) {
+        if (EXTERNAL_LINK.test(href)) run.url = href;
+      } else if (href) {
+        const target = resolveZipHref(chapterPath, href);
+        if (noteTargets.has(target)) {
+          run.noteRef = target;
+        } else {
+          run.target = target;
+        }
       }
+      if (run.children) resolveRuns(run.children);
     }
-  }
+  };
+  if (node.runs) resolveRuns(node.runs);
 
-  return combinedCss;
+  node.children?.forEach(child => resolveReferences(child, chapterPath, noteTargets));
 }
 
 // =============================================================================
-// OPF PARSING
+// ENCRYPTION AND FONT OBFUSCATION
 // =============================================================================
 
+// encryption.xml algorithms that only obfuscate embedded fonts
+const IDPF_FONT_OBFUSCATION = 'http://www.idpf.org/2008/embedding';
+const ADOBE_FONT_OBFUSCATION = 'http://ns.adobe.com/pdf/enc#RC';
+
 /**
- * Extract OPF file path from container.xml
+ * Thrown for EPUBs whose content is encrypted with DRM
  */
-function extractOpfPath(containerXml: string): string | null {
-  const match = containerXml.match(/full-path=["']([^"']+)["']/);
-  return match ? match[1] : null;
+export class DrmError extends Error {
+  constructor(scheme: string) {
+    super(`This EPUB is protected by ${scheme} and cannot be converted. Use a DRM-free copy of the book.`);
+    this.name = 'DrmError';
+  }
 }
 
 /**
- * Parse OPF file to extract metadata and spine
+ * Read META-INF/encryption.xml and undo font obfuscation in place:
+ * - IDPF: first 1040 bytes XORed with the SHA-1 of the unique identifier
+ * - Adobe: first 1024 bytes XORed with the 16 bytes of the book's UUID
+ * Any other algorithm is real encryption, and the book is rejected.
  */
-function parseOpf(opfContent: string): {
-  title: string;
-  author: string;
-  spineItems: string[];
-  manifest: Map<string, { href: string; mediaType: string }>;
-} {
-  const titleMatch = opfContent.match(/<dc:title[^>]*>([^<]+)<\/dc:title>/i);
-  const title = titleMatch ? decodeHtmlEntities(titleMatch[1].trim()) : '';
-
-  const authorMatch = opfContent.match(/<dc:creator[^>]*>([^<]+)<\/dc:creator>/i);
-  const author = authorMatch ? decodeHtmlEntities(authorMatch[1].trim()) : '';
-
-  const manifest = new Map<string, { href: string; mediaType: string }>();
-  const manifestRegex = /<item\s+[^>]*id=["']([^"']+)["'][^>]*href=["']([^"']+)["'][^>]*(?:media-type=["']([^"']+)["'])?[^>]*\/?>/gi;
-  let manifestMatch;
-
-  while ((manifestMatch = manifestRegex.exec(opfContent)) !== null) {
-    const id = manifestMatch[1];
-    const href = decodeURIComponent(manifestMatch[2]);
-    const mediaType = manifestMatch[3] || '';
-    manifest.set(id, { href, mediaType });
+async function undoFontObfuscation(zip: JSZip, metadata: EpubMetadata, diagnostics: Diagnostic[]): Promise<void> {
+  const encryptionXml = await zip.file('META-INF/encryption.xml')?.async('text');
+  if (!encryptionXml) return;
+
+  const document = parseDocument(encryptionXml, { xmlMode: true });
+  const encryptedPaths: string[] = [];
+
+  for (const encryptedData of findAllElements(document, 'EncryptedData')) {
+    const algorithm = findAllElements(encryptedData, 'EncryptionMethod')[0]?.attribs.Algorithm;
+    const uri = findAllElements(encryptedData, 'CipherReference')[0]?.attribs.URI;
+    if (!uri) continue;
+
+    const path = decodeHref(uri).replace(/^\//, '');
+    const data = await zip.file(path)?.async('uint8array');
+    if (!data) continue;
+
+    if (algorithm === IDPF_FONT_OBFUSCATION || algorithm === ADOBE_FONT_OBFUSCATION) {
+      const key = algorithm === IDPF_FONT_OBFUSCATION ? await getIdpfFontKey(metadata) : getAdobeFontKey(metadata);
+      if (!key) {
+        diagnostics.push({
+          severity: 'warning',
+          source: path,
+          message: 'Obfuscated font cannot be restored: the package has no suitable identifier',
+        });
+        continue;
+      }
+      const length = algorithm === IDPF_FONT_OBFUSCATION ? 1040 : 1024;
+      zip.file(path, xorPrefix(data, key, length));
+    } else {
+      encryptedPaths.push(path);
+    }
   }
 
-  const manifestRegex2 = /<item\s+[^>]*href=["']([^"']+)["'][^>]*id=["']([^"']+)["'][^>]*(?:media-type=["']([^"']+)["'])?[^>]*\/?>/gi;
-  while ((manifestMatch = manifestRegex2.exec(opfContent)) !== null) {
-    const href = decodeURIComponent(manifestMatch[1]);
-    const id = manifestMatch[2];
-    const mediaType = manifestMatch[3] || '';
-    if (!manifest.has(id)) {
-      manifest.set(id, { href, mediaType });
-    }
+  if (encryptedPaths.length > 0) {
+    throw new DrmError(detectDrmScheme(zip));
   }
+}
+
+/**
+ * IDPF key: SHA-1 of the unique identifier with all whitespace removed
+ */
+async function getIdpfFontKey(metadata: EpubMetadata): Promise<Uint8Array | null> {
+  if (!metadata.uniqueIdentifier) return null;
+  const identifier = metadata.uniqueIdentifier.replace(/[\u0020\u0009\u000d\u000a]/g, '');
+  return new Uint8Array(await crypto.subtle.digest('SHA-1', new TextEncoder().encode(identifier)));
+}
 
-  const spineItems: string[] = [];
-  const spineRegex = /<itemref\s+[^>]*idref=["']([^"']+)["'][^>]*\/?>/gi;
-  let spineMatch;
+/**
+ * Adobe key: the 16 bytes of the book's UUID (urn:uuid identifier)
+ */
+function getAdobeFontKey(metadata: EpubMetadata): Uint8Array | null {
+  const uuidPattern = /^(urn:uuid:)?[0-9a-f]{8}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{12}$/i;
+  const candidates = [metadata.uniqueIdentifier, ...metadata.identifiers.map(identifier => identifier.value)];
+  const uuid = candidates.find(value => value && uuidPattern.test(value.trim()));
+  if (!uuid) return null;
+
+  const hex = uuid.trim().replace(/^urn:uuid:/i, '').replace(/-/g, '');
+  return new Uint8Array(hex.match(/../g)!.map(byte => parseInt(byte, 16)));
+}
 
-  while ((spineMatch = spineRegex.exec(opfContent)) !== null) {
-    spineItems.push(spineMatch[1]);
+function xorPrefix(data: Uint8Array, key: Uint8Array, length: number): Uint8Array {
+  const result = data.slice();
+  for (let i = 0; i < Math.min(length, result.length); i++) {
+    result[i] ^= key[i % key.length];
   }
+  return result;
+}
 
-  return { title, author, spineItems, manifest };
+/**
+ * Name the DRM scheme from the license files it leaves in META-INF
+ */
+function detectDrmScheme(zip: JSZip): string {
+  if (zip.file('META-INF/rights.xml')) return 'Adobe DRM (ADEPT)';
+  if (zip.file('META-INF/sinf.xml')) return 'Apple FairPlay DRM';
+  if (zip.file('META-INF/license.lcpl')) return 'Readium LCP DRM';
+  return 'DRM encryption';
 }
 
 // =============================================================================
-// HTML TO TREE PARSER
+// CSS EXTRACTION
 // =============================================================================
 
-// Container elements that should preserve structure
-const CONTAINER_TAGS = new Set([
-  'div', 'section', 'article', 'blockquote', 'aside', 'nav',
-  'header', 'footer', 'main', 'figure', 'figcaption'
-]);
-
-// Text elements that contain readable content
-// NOTE: h1-h6 are excluded because we extract them separately as chapter.title
-const TEXT_TAGS = new Set([
-  'p', 'span', 'li'
-]);
-
-// Self-closing tags to skip
-const VOID_TAGS = new Set([
-  'br', 'hr', 'img', 'input', 'meta', 'link', 'area', 'base',
-  'col', 'embed', 'param', 'source', 'track', 'wbr'
-]);
+interface StylesheetCache {
+  files: Map<string, string>;        // CSS file text, keyed by zip path
+  printCss?: string;                 // print stylesheet applied after every document's CSS
+  styleMaps: Map<string, StyleMap>;  // parsed maps, keyed by a document's combined CSS
+}
 
 /**
- * Parse HTML into a ContentNode tree
+ * Read every CSS file in the manifest, keyed by zip path
  */
-function parseHtmlToTree(html: string): {
-  chapterTitle: string;
-  contentTree: ContentNode;
-  pageType: 'titlepage' | 'frontmatter' | 'chapter' | 'backmatter';
-  author?: string;
-} {
-  // Detect page type
-  const isTitlePage = /epub:type=["'][^"']*titlepage[^"']*["']/.test(html);
-  const isCopyright = /epub:type=["'][^"']*copyright[^"']*["']/.test(html);
-  const isToc = /epub:type=["'][^"']*toc[^"']*["']/.test(html);
-  const isEpubFrontMatter = /epub:type=["'][^"']*(dedication|preface|foreword|prologue)[^"']*["']/.test(html);
-  const isEpubBackMatter = /epub:type=["'][^"']*(afterword|colophon|acknowledgment|epilogue)[^"']*["']/.test(html);
-
-  // Extract title and author
-  let chapterTitle = '';
-  let author = '';
-
-  const h1Match = html.match(/<h1[^>]*>([\s\S]*?)<\/h1>/i);
-  const h2Match = html.match(/<h2[^>]*>([\s\S]*?)<\/h2>/i);
-  const titleMatch = html.match(/<title[^>]*>([^<]+)<\/title>/i);
-
-  if (h1Match) {
-    chapterTitle = cleanText(h1Match[1]);
-  } else if (titleMatch && !isTitlePage) {
-    chapterTitle = cleanText(titleMatch[1]);
-  }
+async function extractCss(
+  zip: JSZip,
+  opfDir: string,
+  manifest: Map<string, ManifestItem>
+): Promise<Map<string, string>> {
+  const files = new Map<string, string>();
 
-  if (isTitlePage && h2Match) {
-    author = cleanText(h2Match[1]);
-  } else if (!isTitlePage && h2Match && !h1Match) {
-    chapterTitle = cleanText(h2Match[1]);
+  for (const [, item] of manifest) {
+    if (item.mediaType === 'text/css' || item.href.endsWith('.css')) {
+      const cssPath = opfDir + item.href;
+      const cssContent = await zip.file(cssPath)?.async('text');
+      if (cssContent) {
+        files.set(cssPath, cssContent);
+      }
+    }
   }
 
-  // Determine page type
-  const isFrontMatterByTitle = /^(copyright|table of contents|contents|dedication|preface|foreword|introduction|prologue)$/i.test(chapterTitle.trim());
-  const isBackMatterByTitle = /^(about the author|acknowledgments?|afterword|epilogue|appendix|notes|bibliography|index)$/i.test(chapterTitle.trim());
+  return files;
+}
 
-  let pageType: 'titlepage' | 'frontmatter' | 'chapter' | 'backmatter' = 'chapter';
-  if (isTitlePage) {
-    pageType = 'titlepage';
-  } else if (isCopyright || isToc || isEpubFrontMatter || isFrontMatterByTitle) {
-    pageType = 'frontmatter';
-  } else if (isEpubBackMatter || isBackMatterByTitle) {
-    pageType = 'backmatter';
+/**
+ * Style map for one document: the stylesheets it links and its own <style>
+ * blocks, in document order, then the print stylesheet. Documents with the
+ * same CSS share one map.
+ */
+function getDocumentStyleMap(
+  document: Document,
+  documentPath: string,
+  stylesheets: StylesheetCache,
+  diagnostics: Diagnostic[]
+): StyleMap {
+  const cssText = DomUtils.findAll(isStyleSource, document.children)
+    .map(element => {
+      if (element.name === 'style') {
+        const blockCss = DomUtils.textContent(element);
+        diagnostics.push(...checkCss(blockCss, documentPath));
+        return blockCss;
+      }
+      const cssPath = resolveZipPath(documentPath, element.attribs.href);
+      const linkedCss = stylesheets.files.get(cssPath);
+      if (linkedCss === undefined) {
+        diagnostics.push({ severity: 'warning', source: documentPath, message: `Linked stylesheet ${cssPath} is not in the EPUB` });
+      }
+      return linkedCss ?? '';
+    })
+    .concat(stylesheets.printCss ?? [])
+    .join('\n');
+
+  let styleMap = stylesheets.styleMaps.get(cssText);
+  if (!styleMap) {
+    styleMap = parseCssToReactPdf(cssText);
+    stylesheets.styleMaps.set(cssText, styleMap);
   }
+  return styleMap;
+}
 
-  // Extract body content
-  const bodyMatch = html.match(/<body[^>]*>([\s\S]*?)<\/body>/i);
-  const bodyHtml = bodyMatch ? bodyMatch[1] : html;
+/**
+ * <style> blocks and <link rel="stylesheet"> (alternate stylesheets are not applied)
+ */
+function isStyleSource(element: Element): boolean {
+  if (element.name === 'style') return true;
+  const rel = (element.attribs.rel || '').toLowerCase().split(/\s+/);
+  return element.name === 'link' && !!element.attribs.href && rel.includes('stylesheet') && !rel.includes('alternate');
+}
 
-  // Parse into tree
-  const contentTree = parseElement(bodyHtml, 'body', []);
+// =============================================================================
+// IMAGE EXTRACTION
+// =============================================================================
 
-  return {
-    chapterTitle,
-    contentTree,
-    pageType,
-    author: author || undefined,
+/**
+ * Report images in the text that cannot be printed: missing from the zip,
+ * damaged, or in a format other than PNG and JPEG
+ */
+function findMissingImages(
+  zip: JSZip,
+  chapters: Chapter[],
+  notes: Map<string, Note>,
+  images: Map<string, EpubImage>,
+  damagedImages: Set<string>
+): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const visit = (node: ContentNode, documentPath: string) => {
+    if (node.type === 'image' && node.src && damagedImages.has(node.src)) {
+      diagnostics.push({
+        severity: 'warning',
+        source: documentPath,
+        message: `Image ${node.src} is damaged and cannot be decoded - left out`,
+      });
+    } else if (node.type === 'image' && node.src && !images.has(node.src)) {
+      diagnostics.push({
+        severity: 'error',
+        source: documentPath,
+        message: zip.file(node.src)
+          ? `Image ${node.src} is not PNG or JPEG - left out`
+          : `Image ${node.src} is missing from the EPUB - left out`,
+      });
+    }
+    node.children?.forEach(child => visit(child, documentPath));
   };
+
+  chapters.forEach(chapter => visit(chapter.content, chapter.path));
+  notes.forEach(note => visit(note.content, note.id.split('#')[0]));
+  return diagnostics;
 }
 
 /**
- * Parse an HTML string into a ContentNode
+ * Read all PNG/JPEG images in the manifest, keyed by zip path. PNGs whose
+ * image data does not decode are left out and added to damagedImages.
  */
-function parseElement(html: string, tagName: string, classNames: string[]): ContentNode {
-  const children: ContentNode[] = [];
+async function extractImages(
+  zip: JSZip,
+  opfDir: string,
+  manifest: Map<string, ManifestItem>,
+  damagedImages: Set<string>
+): Promise<Map<string, EpubImage>> {
+  const images = new Map<string, EpubImage>();
+
+  for (const [, item] of manifest) {
+    if (!item.mediaType.startsWith('image/')) continue;
+
+    const imagePath = opfDir + item.href;
+    const data = await zip.file(imagePath)?.async('uint8array');
+    if (!data) continue;
+
+    // Detect by content - media types in the wild are often wrong
+    const image = readImageHeader(data);
+    if (image?.format === 'png' && !isDecodablePng(data, image.width, image.height)) {
+      damagedImages.add(imagePath);
+    } else if (image) {
+      images.set(imagePath, image);
+    }
+  }
 
-  // Tokenize: find all tags and text between them
-  const tagRegex = /<(\/?)(\w+)([^>]*)>/g;
-  let lastIndex = 0;
-  let match;
+  return images;
+}
 
-  const stack: { tagName: string; classNames: string[]; children: ContentNode[]; startIndex: number }[] = [];
+// Adam7 interlace passes: first column and row, column and row step
+const ADAM7_PASSES = [[0, 0, 8, 8], [4, 0, 8, 8], [0, 4, 4, 8], [2, 0, 4, 4], [0, 2, 2, 4], [1, 0, 2, 2], [0, 1, 1, 2]];
 
-  while ((match = tagRegex.exec(html)) !== null) {
-    const [fullMatch, isClosing, matchTagName, attributes] = match;
-    const tagLower = matchTagName.toLowerCase();
+// Samples per pixel of each PNG color type
+const PNG_CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
 
-    // Text before this tag
-    if (match.index > lastIndex) {
-      const textBetween = html.slice(lastIndex, match.index);
-      const cleanedText = cleanText(textBetween);
-      if (cleanedText.length > 0 && stack.length === 0) {
-        // Top-level text
-        children.push({
-          type: 'text',
-          tagName: 'span',
-          classNames: [],
-          text: cleanedText,
-        });
-      }
+/**
+ * Whether PNG data decodes: its chunks are whole and its image data
+ * inflates to every scanline. react-pdf inflates PNGs in a zlib callback,
+ * where damaged data throws beyond the reach of any caller.
+ */
+function isDecodablePng(data: Uint8Array, width: number, height: number): boolean {
+  const imageData: Uint8Array[] = [];
+  let bitsPerPixel = 0;
+  let interlaced = false;
+  let ended = false;
+
+  for (let offset = 8; offset + 8 <= data.length && !ended;) {
+    const length = readUint32(data, offset);
+    const type = String.fromCharCode(data[offset + 4], data[offset + 5], data[offset + 6], data[offset + 7]);
+    const body = data.subarray(offset + 8, offset + 8 + length);
+    if (body.length < length) return false;
+
+    if (type === 'IHDR') {
+      bitsPerPixel = body[8] * (PNG_CHANNELS[body[9]] ?? 0);
+      interlaced = body[12] === 1;
+    } else if (type === 'IDAT') {
+      imageData.push(body);
     }
+    ended = type === 'IEND';
+    offset += 12 + length;
+  }
+  if (!ended || bitsPerPixel === 0 || imageData.length === 0 || width === 0 || height === 0) return false;
 
-    lastIndex = match.index + fullMatch.length;
+  let pixels: Buffer;
+  try {
+    pixels = inflateSync(Buffer.concat(imageData));
+  } catch {
+    return false;
+  }
 
-    // Skip void tags
-    if (VOID_TAGS.has(tagLower)) {
-      continue;
-    }
+  // Each scanline of each pass is a filter type byte, then its pixels
+  let expected = 0;
+  for (const [x0, y0, dx, dy] of interlaced ? ADAM7_PASSES : [[0, 0, 1, 1]]) {
+    const passWidth = Math.ceil((width - x0) / dx);
+    const passHeight = Math.ceil((height - y0) / dy);
+    if (passWidth > 0 && passHeight > 0) expected += passHeight * (1 + Math.ceil((passWidth * bitsPerPixel) / 8));
+  }
+  return pixels.length >= expected;
+}
+
+/**
+ * Read format and pixel size from PNG/JPEG data, null for other formats
+ */
+function readImageHeader(data: Uint8Array): EpubImage | null {
+  // PNG: signature, then IHDR with big-endian width/height
+  if (data.length > 24 && data[0] === 0x89 && data[1] === 0x50 && data[2] === 0x4e && data[3] === 0x47) {
+    const width = readUint32(data, 16);
+    const height = readUint32(data, 20);
+    return { data, format: 'png', width, height };
+  }
 
-    // Skip script, style, head, and headings (h1-h6 are extracted separately as chapter.title)
-    if (!isClosing && ['script', 'style', 'head', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6'].includes(tagLower)) {
-      // Find closing tag and skip content
-      const closeRegex = new RegExp(`</${tagLower}>`, 'i');
-      const closeMatch = closeRegex.exec(html.slice(lastIndex));
-      if (closeMatch) {
-        lastIndex = lastIndex + closeMatch.index + closeMatch[0].length;
-        tagRegex.lastIndex = lastIndex;
+  // JPEG: walk segments until a start-of-frame marker
+  if (data.length > 4 && data[0] === 0xff && data[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < data.length) {
+      if (data[offset] !== 0xff) {
+        offset++;
+        continue;
       }
-      continue;
+      const marker = data[offset + 1];
+      const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+      if (isStartOfFrame) {
+        const height = (data[offset + 5] << 8) | data[offset + 6];
+        const width = (data[offset + 7] << 8) | data[offset + 8];
+        return { data, format: 'jpg', width, height };
+      }
+      offset += 2 + ((data[offset + 2] << 8) | data[offset + 3]);
     }
+  }
 
-    if (isClosing) {
-      // Closing tag - pop from stack
-      if (stack.length > 0 && stack[stack.length - 1].tagName === tagLower) {
-        const item = stack.pop()!;
-        const innerHtml = html.slice(item.startIndex, match.index);
+  return null;
+}
 
-        // Parse the inner content
-        const node = parseElementContent(innerHtml, item.tagName, item.classNames);
+function readUint32(data: Uint8Array, offset: number): number {
+  return ((data[offset] << 24) | (data[offset + 1] << 16) | (data[offset + 2] << 8) | data[offset + 3]) >>> 0;
+}
 
-        if (stack.length === 0) {
-          // Add to top-level children
-          children.push(node);
-        } else {
-          // Add to parent on stack
-          stack[stack.length - 1].children.push(node);
-        }
-      }
-    } else {
-      // Opening tag
-      const elementClasses = extractClassNames(attributes);
+// =============================================================================
+// FONT EXTRACTION
+// =============================================================================
 
-      // Check for self-closing syntax
-      const isSelfClosing = attributes.trim().endsWith('/');
+/**
+ * Read the font files named by each stylesheet's @font-face rules.
+ * src urls are tried in order; the first one that is in the zip and looks
+ * like a font is used.
+ */
+async function extractFonts(
+  zip: JSZip,
+  opfDir: string,
+  manifest: Map<string, ManifestItem>,
+  diagnostics: Diagnostic[]
+): Promise<EpubFont[]> {
+  const fonts: EpubFont[] = [];
 
-      if (isSelfClosing) {
-        continue;
+  for (const [, item] of manifest) {
+    if (item.mediaType !== 'text/css' && !item.href.endsWith('.css')) continue;
+
+    const cssPath = opfDir + item.href;
+    const cssContent = await zip.file(cssPath)?.async('text');
+    if (!cssContent) continue;
+
+    for (const rule of parseFontFaces(cssContent, cssPath, diagnostics)) {
+      let font: EpubFont | null = null;
+      for (const source of rule.sources) {
+        const fontPath = resolveZipPath(cssPath, source);
+        const data = await zip.file(fontPath)?.async('uint8array');
+        if (data && isFontData(data)) {
+          font = { family: rule.family, fontWeight: rule.fontWeight, fontStyle: rule.fontStyle, path: fontPath, data };
+          break;
+        }
       }
 
-      // Push to stack for container and text tags
-      if (CONTAINER_TAGS.has(tagLower) || TEXT_TAGS.has(tagLower)) {
-        stack.push({
-          tagName: tagLower,
-          classNames: elementClasses,
-          children: [],
-          startIndex: lastIndex,
+      if (font) {
+        fonts.push(font);
+      } else {
+        diagnostics.push({
+          severity: 'warning',
+          source: cssPath,
+          message: `Font "${rule.family}" (${rule.sources.join(', ')}) could not be read from the EPUB`,
         });
       }
     }
   }
 
-  // Handle any remaining text
-  if (lastIndex < html.length) {
-    const remainingText = cleanText(html.slice(lastIndex));
-    if (remainingText.length > 0 && stack.length === 0) {
-      children.push({
-        type: 'text',
-        tagName: 'span',
-        classNames: [],
-        text: remainingText,
-      });
-    }
-  }
+  return fonts;
+}
 
-  return {
-    type: 'container',
-    tagName,
-    classNames,
-    children,
-  };
+/**
+ * Whether data starts like a TrueType, OpenType, WOFF or WOFF2 font
+ */
+function isFontData(data: Uint8Array): boolean {
+  if (data.length < 4) return false;
+  const tag = String.fromCharCode(data[0], data[1], data[2], data[3]);
+  return readUint32(data, 0) === 0x00010000 || ['true', 'OTTO', 'wOFF', 'wOF2'].includes(tag);
 }
 
+// =============================================================================
+// OPF PARSING
+// =============================================================================
+
 /**
- * Parse element content into a ContentNode
+ * Extract OPF file path from container.xml
  */
-function parseElementContent(innerHtml: string, tagName: string, classNames: string[]): ContentNode {
-  // Check if this is a text element
-  if (TEXT_TAGS.has(tagName)) {
-    // For text elements, extract text but also check for nested structure
-    const hasNestedTags = /<(div|blockquote|section|p)\b/i.test(innerHtml);
+function extractOpfPath(containerXml: string): string | null {
+  const match = containerXml.match(/full-path=["']([^"']+)["']/);
+  return match ? match[1] : null;
+}
 
-    if (!hasNestedTags) {
-      // Simple text element
-      const text = cleanText(innerHtml);
-      return {
-        type: 'text',
-        tagName,
-        classNames,
-        text,
-      };
-    }
+/**
+ * Parse OPF file to extract metadata and spine
+ */
+function parseOpf(opfContent: string): {
+  metadata: EpubMetadata;
+  spineItems: SpineItem[];
+  tocId?: string;
+  manifest: Map<string, ManifestItem>;
+  guide: Landmark[];  // hrefs relative to the OPF
+} {
+  const opfDocument = parseDocument(opfContent, { xmlMode: true });
+  const metadata = parseMetadata(opfDocument);
+
+  // Manifest: attribute order varies between producers, so read attributes
+  // off the parsed <item> elements rather than matching them positionally
+  const manifest = new Map<string, ManifestItem>();
+  for (const item of findAllElements(opfDocument, 'item')) {
+    const { id, href } = item.attribs;
+    if (!id || !href || manifest.has(id)) continue;
+    manifest.set(id, {
+      href: decodeHref(href),
+      mediaType: item.attribs['media-type'] || '',
+      properties: (item.attribs.properties || '').split(/\s+/).filter(p => p.length > 0),
+    });
   }
 
-  // Container element - recursively parse children
-  const parsed = parseElement(innerHtml, tagName, classNames);
+  const spineItems: SpineItem[] = findAllElements(opfDocument, 'itemref')
+    .filter(itemref => !!itemref.attribs.idref)
+    .map(itemref => ({ id: itemref.attribs.idref, linear: itemref.attribs.linear !== 'no' }));
 
-  // If no children were found but there's text, treat as text node
-  // BUT skip if the text came from h1-h6 (which we intentionally skip)
-  if (parsed.children && parsed.children.length === 0) {
-    const hasSkippedHeading = /<h[1-6]\b/i.test(innerHtml);
-    if (!hasSkippedHeading) {
-      const text = cleanText(innerHtml);
-      if (text.length > 0) {
-        return {
-          type: 'text',
-          tagName,
-          classNames,
-          text,
-        };
-      }
+  // EPUB 2: <spine toc="ncx"> names the NCX manifest item
+  const spine = findAllElements(opfDocument, 'spine')[0];
+  const tocId = spine?.attribs.toc;
+
+  // EPUB 2: <guide><reference type="copyright-page" href="..."/>
+  const guide: Landmark[] = findAllElements(opfDocument, 'reference')
+    .filter(reference => reference.attribs.type && reference.attribs.href)
+    .map(reference => ({ type: reference.attribs.type.toLowerCase(), href: decodeHref(reference.attribs.href) }));
+
+  return { metadata, spineItems, tocId, manifest, guide };
+}
+
+/**
+ * Report spine items missing from the manifest and manifest items missing
+ * from the zip (a missing spine document is lost text; anything else, lost decoration)
+ */
+function checkManifest(
+  zip: JSZip,
+  opfDir: string,
+  opfPath: string,
+  manifest: Map<string, ManifestItem>,
+  spineItems: SpineItem[],
+  diagnostics: Diagnostic[]
+): void {
+  const spineIds = new Set(spineItems.map(item => item.id));
+  for (const { id } of spineItems) {
+    if (!manifest.has(id)) {
+      diagnostics.push({ severity: 'error', source: opfPath, message: `Spine item "${id}" is not in the manifest - skipped` });
     }
   }
 
-  return parsed;
+  for (const [id, item] of manifest) {
+    // Remote resources are never in the zip
+    if (URL_SCHEME.test(item.href) || zip.file(opfDir + item.href)) continue;
+    diagnostics.push(spineIds.has(id)
+      ? { severity: 'error', source: opfDir + item.href, message: 'Spine document is missing from the EPUB - skipped' }
+      : { severity: 'warning', source: opfDir + item.href, message: 'Listed in the manifest but missing from the EPUB' });
+  }
 }
 
-// =============================================================================
-// UTILITIES
-// =============================================================================
-
 /**
- * Extract class names from HTML attributes string
+ * Parse OPF <metadata>, applying EPUB 3 <meta refines> refinements
+ * and EPUB 2 opf:* attributes
  */
-function extractClassNames(attributes: string): string[] {
-  const classMatch = attributes.match(/class=["']([^"']+)["']/i);
-  if (!classMatch) return [];
-  return classMatch[1].split(/\s+/).filter(c => c.length > 0);
+function parseMetadata(opfDocument: Document): EpubMetadata {
+  // EPUB 3: <meta refines="#id" property="role">aut</meta>
+  const refinements = new Map<string, Map<string, string>>();
+  const metas = findAllElements(opfDocument, 'meta');
+  for (const meta of metas) {
+    const { refines, property } = meta.attribs;
+    if (!refines || !property) continue;
+    const id = refines.replace(/^#/, '');
+    if (!refinements.has(id)) refinements.set(id, new Map());
+    const properties = refinements.get(id)!;
+    if (!properties.has(property)) properties.set(property, getElementText(meta));
+  }
+  const refinement = (element: Element, property: string) =>
+    element.attribs.id ? refinements.get(element.attribs.id)?.get(property) : undefined;
+
+  const dcElements = (name: string) =>
+    findAllElements(opfDocument, name).filter(el => getElementText(el).length > 0);
+  const firstText = (name: string) => {
+    const element = dcElements(name)[0];
+    return element ? getElementText(element) : undefined;
+  };
+
+  // Titles: main title, plus a subtitle from title-type refinements
+  const titles = dcElements('title');
+  const mainTitle = titles.find(t => refinement(t, 'title-type') === 'main') || titles[0];
+  const subtitleElement = titles.find(t => refinement(t, 'title-type') === 'subtitle');
+
+  const toContributor = (element: Element): EpubContributor => ({
+    name: getElementText(element),
+    role: refinement(element, 'role') || element.attribs['opf:role'] || undefined,
+    fileAs: refinement(element, 'file-as') || element.attribs['opf:file-as'] || undefined,
+  });
+
+  const identifierElements = dcElements('identifier');
+  const identifiers = identifierElements.map(element => {
+    const value = getElementText(element);
+    const scheme =
+      element.attribs['opf:scheme'] ||
+      refinement(element, 'identifier-type') ||
+      value.match(/^urn:(isbn|uuid|issn|doi):/i)?.[1] ||
+      (/^(97[89])?\d{9}[\dX]$/i.test(value.replace(/-/g, '')) ? 'ISBN' : undefined);
+    return { value, scheme: scheme?.toUpperCase() };
+  });
+
+  const packageElement = findAllElements(opfDocument, 'package')[0];
+  const uniqueIdentifierId = packageElement?.attribs['unique-identifier'];
+  const uniqueIdentifierElement = identifierElements.find(el => el.attribs.id === uniqueIdentifierId) || identifierElements[0];
+
+  // Series: EPUB 3 belongs-to-collection, else calibre:series meta
+  let series: string | undefined;
+  let seriesIndex: number | undefined;
+  const collection = metas.find(meta =>
+    meta.attribs.property === 'belongs-to-collection' &&
+    (refinement(meta, 'collection-type') ?? 'series') === 'series'
+  );
+  if (collection) {
+    series = getElementText(collection);
+    seriesIndex = parseFloat(refinement(collection, 'group-position') || '') || undefined;
+  } else {
+    const calibreMeta = (name: string) => metas.find(meta => meta.attribs.name === name)?.attribs.content;
+    series = calibreMeta('calibre:series');
+    seriesIndex = parseFloat(calibreMeta('calibre:series_index') || '') || undefined;
+  }
+
+  const description = firstText('description');
+
+  return {
+    title: mainTitle ? getElementText(mainTitle) : '',
+    subtitle: subtitleElement ? getElementText(subtitleElement) : undefined,
+    creators: dcElements('creator').map(toContributor),
+    contributors: dcElements('contributor').map(toContributor),
+    publisher: firstText('publisher'),
+    date: firstText('date'),
+    language: firstText('language'),
+    rights: firstText('rights'),
+    // Descriptions are often escaped HTML
+    description: description ? collapseWhitespace(description.replace(/<[^>]+>/g, ' ')).trim() : undefined,
+    identifiers,
+    uniqueIdentifier: uniqueIdentifierElement ? getElementText(uniqueIdentifierElement) : undefined,
+    series: series || undefined,
+    seriesIndex,
+  };
 }
 
 /**
- * Clean text by removing HTML tags and normalizing whitespace
+ * First creator with the author role, else the first creator
  */
-function cleanText(html: string): string {
-  return html
-    .replace(/<[^>]+>/g, ' ')
-    .replace(/&nbsp;/g, ' ')
-    .replace(/&amp;/g, '&')
-    .replace(/&lt;/g, '<')
-    .replace(/&gt;/g, '>')
-    .replace(/&quot;/g, '"')
-    .replace(/&#39;/g, "'")
-    .replace(/&apos;/g, "'")
-    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
-    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
-    .replace(/\s+/g, ' ')
-    .trim();
+function getPrimaryAuthor(metadata: EpubMetadata): string {
+  const author = metadata.creators.find(c => c.role === 'aut') || metadata.creators[0];
+  return author?.name || '';
+}
+
+// =============================================================================
+// NAVIGATION PARSING
+// =============================================================================
+
+/**
+ * Read the table of contents: the EPUB 3 nav document (manifest property
+ * "nav") if present, otherwise the NCX named by the spine's toc attribute
+ */
+async function extractToc(
+  zip: JSZip,
+  opfDir: string,
+  manifest: Map<string, ManifestItem>,
+  tocId?: string
+): Promise<NavPoint[]> {
+  const items = [...manifest.values()];
+
+  const navItem = items.find(item => item.properties.includes('nav'));
+  if (navItem) {
+    const navPath = opfDir + navItem.href;
+    const navContent = await zip.file(navPath)?.async('text');
+    if (navContent) {
+      const toc = parseNavDocument(navContent, navPath);
+      if (toc.length > 0) return toc;
+    }
+  }
+
+  const ncxItem = (tocId && manifest.get(tocId)) || items.find(item => item.mediaType === 'application/x-dtbncx+xml');
+  if (ncxItem) {
+    const ncxPath = opfDir + ncxItem.href;
+    const ncxContent = await zip.file(ncxPath)?.async('text');
+    if (ncxContent) {
+      return parseNcx(ncxContent, ncxPath);
+    }
+  }
+
+  return [];
+}
+
+/**
+ * Parse an EPUB 3 nav document: <nav epub:type="toc"><ol><li><a href>...
+ */
+function parseNavDocument(navContent: string, navPath: string): NavPoint[] {
+  const document = parseDocument(navContent, XHTML_PARSER_OPTIONS);
+  const navs = findAllElements(document, 'nav');
+  const tocNav = navs.find(nav => /\btoc\b/.test(nav.attribs['epub:type'] || '')) || navs[0];
+  if (!tocNav) return [];
+
+  const parseList = (list: Element): NavPoint[] => {
+    const points: NavPoint[] = [];
+    for (const li of list.children.filter(isTag).filter(child => child.name === 'li')) {
+      const children = li.children.filter(isTag);
+      // Entries are <a href> or, for unlinked groupings, <span>
+      const labelElement = children.find(child => child.name === 'a' || child.name === 'span');
+      const subList = children.find(child => child.name === 'ol' || child.name === 'ul');
+      const href = labelElement?.attribs.href;
+
+      points.push({
+        label: labelElement ? getElementText(labelElement) : '',
+        href: href ? resolveZipHref(navPath, href) : '',
+        children: subList ? parseList(subList) : [],
+      });
+    }
+    return points;
+  };
+
+  const topList = findFirstElement(tocNav, 'ol') || findFirstElement(tocNav, 'ul');
+  return topList ? parseList(topList) : [];
+}
+
+/**
+ * Parse an EPUB 2 NCX: <navMap><navPoint><navLabel><text/><content src/>...
+ */
+function parseNcx(ncxContent: string, ncxPath: string): NavPoint[] {
+  const document = parseDocument(ncxContent, { xmlMode: true });
+  const navMap = findAllElements(document, 'navMap')[0];
+  if (!navMap) return [];
+
+  const parsePoints = (parent: Element): NavPoint[] =>
+    parent.children
+      .filter(isTag)
+      .filter(child => child.name === 'navPoint' || child.name.endsWith(':navPoint'))
+      .map(navPoint => {
+        const labelText = findAllElements(navPoint, 'text')[0];
+        const content = navPoint.children.filter(isTag).find(child => child.name === 'content' || child.name.endsWith(':content'));
+        const src = content?.attribs.src;
+        return {
+          label: labelText ? getElementText(labelText) : '',
+          href: src ? resolveZipHref(ncxPath, src) : '',
+          children: parsePoints(navPoint),
+        };
+      });
+
+  return parsePoints(navMap);
+}
+
+/**
+ * Find the label of the first TOC entry pointing at a spine document
+ */
+function findNavLabel(toc: NavPoint[], chapterPath: string): string {
+  for (const point of toc) {
+    if (point.label && point.href.split('#')[0] === chapterPath) {
+      return point.label;
+    }
+    const nested = findNavLabel(point.children, chapterPath);
+    if (nested) return nested;
+  }
+  return '';
+}
+
+/**
+ * Read the EPUB 3 landmarks nav: <nav epub:type="landmarks"><ol><li><a epub:type href>...
+ */
+async function extractLandmarks(
+  zip: JSZip,
+  opfDir: string,
+  manifest: Map<string, ManifestItem>
+): Promise<Landmark[]> {
+  const navItem = [...manifest.values()].find(item => item.properties.includes('nav'));
+  if (!navItem) return [];
+
+  const navPath = opfDir + navItem.href;
+  const navContent = await zip.file(navPath)?.async('text');
+  return navContent ? parseLandmarks(navContent, navPath) : [];
+}
+
+function parseLandmarks(navContent: string, navPath: string): Landmark[] {
+  const document = parseDocument(navContent, XHTML_PARSER_OPTIONS);
+  const landmarksNav = findAllElements(document, 'nav').find(nav => /\blandmarks\b/.test(nav.attribs['epub:type'] || ''));
+  if (!landmarksNav) return [];
+
+  return findAllElements(landmarksNav, 'a')
+    .filter(link => link.attribs['epub:type'] && link.attribs.href)
+    .map(link => ({
+      type: link.attribs['epub:type'].trim().toLowerCase(),
+      href: resolveZipHref(navPath, link.attribs.href),
+    }));
+}
+
+/**
+ * Whether the first TOC entry for a spine document points at a fragment and
+ * is nested under the entry for another one: a subsection rather than a
+ * chapter of its own (chapters nested under parts point at whole files)
+ */
+function isNestedNavEntry(toc: NavPoint[], parentPath: string, chapterPath: string): boolean {
+  const findPoint = (points: NavPoint[], path: string): NavPoint | undefined => {
+    for (const point of points) {
+      if (point.href.split('#')[0] === path) return point;
+      const nested = findPoint(point.children, path);
+      if (nested) return nested;
+    }
+    return undefined;
+  };
+
+  const parent = findPoint(toc, parentPath);
+  const entry = findPoint(toc, chapterPath);
+  return !!parent && !!entry && entry.href.includes('#') && findPoint(parent.children, chapterPath) === entry;
+}
+
+// =============================================================================
+// PAGE CLASSIFICATION
+// =============================================================================
+
+// Landmark, guide and epub:type vocabulary -> page role.
+// "frontmatter", "bodymatter"/"text" and "backmatter" also mark ranges of the spine.
+const STRUCTURAL_ROLES: Record<string, PageRole | undefined> = {
+  'cover': 'cover',
+  'titlepage': 'titlepage',
+  'title-page': 'titlepage',
+  'halftitlepage': 'titlepage',
+  'copyright-page': 'copyright',
+  'copyright': 'copyright',
+  'toc': 'toc',
+  'loi': 'toc',
+  'lot': 'toc',
+  'dedication': 'dedication',
+  'epigraph': 'epigraph',
+  'foreword': 'foreword',
+  'preface': 'preface',
+  'introduction': 'introduction',
+  'prologue': 'prologue',
+  'frontmatter': 'frontmatter',
+  'bodymatter': 'chapter',
+  'text': 'chapter',
+  'chapter': 'chapter',
+  'epilogue': 'epilogue',
+  'afterword': 'afterword',
+  'conclusion': 'afterword',
+  'acknowledgments': 'acknowledgments',
+  'acknowledgements': 'acknowledgments',
+  'appendix': 'appendix',
+  'endnotes': 'notes',
+  'rearnotes': 'notes',
+  'notes': 'notes',
+  'glossary': 'glossary',
+  'bibliography': 'bibliography',
+  'index': 'index',
+  'colophon': 'colophon',
+  'contributors': 'about-author',
+  'backmatter': 'backmatter',
+};
+
+// Part of the book each role is printed in
+const ROLE_SECTIONS: Record<PageRole, Chapter['type']> = {
+  'cover': 'frontmatter',
+  'titlepage': 'titlepage',
+  'copyright': 'frontmatter',
+  'toc': 'frontmatter',
+  'dedication': 'frontmatter',
+  'epigraph': 'frontmatter',
+  'foreword': 'frontmatter',
+  'preface': 'frontmatter',
+  'introduction': 'frontmatter',
+  'prologue': 'frontmatter',
+  'frontmatter': 'frontmatter',
+  'chapter': 'chapter',
+  'epilogue': 'backmatter',
+  'afterword': 'backmatter',
+  'acknowledgments': 'backmatter',
+  'appendix': 'backmatter',
+  'notes': 'backmatter',
+  'glossary': 'backmatter',
+  'bibliography': 'backmatter',
+  'index': 'backmatter',
+  'colophon': 'backmatter',
+  'about-author': 'backmatter',
+  'also-by': 'backmatter',
+  'backmatter': 'backmatter',
+};
+
+// Generic tokens only say which part of the book a page is in;
+// a more specific token on the same page wins
+const GENERIC_STRUCTURAL_TYPES = new Set(['frontmatter', 'backmatter']);
+
+// Notes and epigraphs appear inside ordinary chapters, and many books mark
+// every spine document as bodymatter, so these say nothing about the page
+const INLINE_STRUCTURAL_TYPES = new Set(['epigraph', 'footnotes', 'endnotes', 'rearnotes', 'bodymatter', 'text']);
+
+// Fallback when nothing in the package or markup says what the page is
+const TITLE_ROLES: [RegExp, PageRole][] = [
+  [/^cover$/i, 'cover'],
+  [/^copyright$/i, 'copyright'],
+  [/^(table of contents|contents)$/i, 'toc'],
+  [/^dedication$/i, 'dedication'],
+  [/^preface$/i, 'preface'],
+  [/^foreword$/i, 'foreword'],
+  [/^introduction$/i, 'introduction'],
+  [/^prologue$/i, 'prologue'],
+  [/^about the author$/i, 'about-author'],
+  [/^(also by|other (books|titles) by|books by)\b/i, 'also-by'],
+  [/^acknowledge?ments?$/i, 'acknowledgments'],
+  [/^afterword$/i, 'afterword'],
+  [/^epilogue$/i, 'epilogue'],
+  [/^appendix\b/i, 'appendix'],
+  [/^notes$/i, 'notes'],
+  [/^bibliography$/i, 'bibliography'],
+  [/^index$/i, 'index'],
+];
+
+/**
+ * Map each spine document to the type its landmark or guide entry declares.
+ * Landmarks come first, so they win over the guide; entries pointing into
+ * the middle of a document (#fragment) still describe the whole document.
+ */
+function getDeclaredPageTypes(landmarks: Landmark[]): Map<string, string> {
+  const types = new Map<string, string>();
+  for (const { type, href } of landmarks) {
+    const path = href.split('#')[0];
+    if (!types.has(path) && STRUCTURAL_ROLES[type]) {
+      types.set(path, type);
+    }
+  }
+  return types;
+}
+
+/**
+ * Page role from epub:type on the body and the two levels below it,
+ * preferring the shallowest specific token over generic ones
+ */
+function getTypedRole(document: Document): PageRole | undefined {
+  const body = findFirstElement(document, 'body');
+  let level: Element[] = body ? [body] : document.children.filter(isTag);
+  let genericRole: PageRole | undefined;
+
+  for (let depth = 0; depth < 3 && level.length > 0; depth++) {
+    for (const element of level) {
+      const types = (element.attribs['epub:type'] || '').toLowerCase().split(/\s+/);
+      for (const type of types) {
+        const role = INLINE_STRUCTURAL_TYPES.has(type) ? undefined : STRUCTURAL_ROLES[type];
+        if (!role) continue;
+        if (!GENERIC_STRUCTURAL_TYPES.has(type)) return role;
+        genericRole ??= role;
+      }
+    }
+    level = level.flatMap(element => element.children.filter(isTag));
+  }
+
+  return genericRole;
+}
+
+function getRoleFromTitle(title: string): PageRole | undefined {
+  const trimmed = title.trim();
+  return TITLE_ROLES.find(([pattern]) => pattern.test(trimmed))?.[1];
+}
+
+// =============================================================================
+// CHAPTER HEADINGS
+// =============================================================================
+
+type HeadingPartKind = 'label' | 'title' | 'subtitle';
+
+// Line or marked span of a chapter heading; kind is only set when the markup says it
+interface HeadingPart {
+  kind?: HeadingPartKind;
+  text: string;
+  path?: ElementPath;  // element that marks the part, else the heading line it is on
+}
+
+// Words that introduce a chapter number: "Chapter 12", "Part Two", "Book IV"
+const NUMBER_LABEL_WORDS = /^(chapter|part|book|volume|section|act|canto|letter)\s+/i;
+
+// Classes producers give to the number, title and subtitle of a heading
+const LABEL_CLASS = /^(chap|chapter|part|ch)?[-_]?(num|number|no|label|ordinal)$/i;
+const SUBTITLE_CLASS = /sub-?(title|head)/i;
+const TITLE_CLASS = /title$/i;
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15,
+  sixteen: 16, seventeen: 17, eighteen: 18, nineteen: 19,
+  twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+};
+
+const ROMAN_NUMERAL = /^M{0,3}(CM|CD|D?C{0,3})(XC|XL|L?X{0,3})(IX|IV|V?I{0,3})$/i;
+const ROMAN_VALUES: Record<string, number> = { i: 1, v: 5, x: 10, l: 50, c: 100, d: 500, m: 1000 };
+
+/**
+ * The title heading plus the elements that belong to it: the rest of its
+ * <hgroup>, a number-only line just before it ("Chapter 12" over the title),
+ * and a following heading that gives the title of a number-only heading or
+ * is marked as the title or subtitle
+ */
+function findHeadingGroup(heading: Element): Element[] {
+  if (heading.parent && isTag(heading.parent) && heading.parent.name === 'hgroup') {
+    return heading.parent.children.filter(isTag);
+  }
+
+  const group = [heading];
+  const isHeadingTag = (element: Element | null): element is Element => !!element && /^h[1-6]$/.test(element.name);
+
+  const previous = DomUtils.prevElementSibling(heading);
+  if (previous && (isHeadingTag(previous) || getHeadingPartKind(previous) === 'label')) {
+    const { label, title, subtitle } = splitChapterHeading(getHeadingParts(previous));
+    if (label && !title && !subtitle) group.unshift(previous);
+  }
+
+  const next = DomUtils.nextElementSibling(heading);
+  if (next) {
+    const nextKind = getHeadingPartKind(next);
+    const numberOnly = !splitChapterHeading(group.flatMap(element => getHeadingParts(element))).title;
+    if (nextKind === 'title' || nextKind === 'subtitle' || (numberOnly && isHeadingTag(next))) group.push(next);
+  }
+
+  return group;
+}
+
+/**
+ * What a heading element holds, from epub:type/role (label, ordinal, title,
+ * subtitle) or its class names
+ */
+function getHeadingPartKind(element: Element): HeadingPartKind | undefined {
+  const types = (element.attribs['epub:type'] || '').toLowerCase().split(/\s+/);
+  if (types.includes('label') || types.includes('ordinal')) return 'label';
+  if (types.includes('subtitle') || hasStructuralType(element, 'subtitle', 'doc-subtitle')) return 'subtitle';
+  if (types.includes('title')) return 'title';
+
+  const classNames = extractClassNames(element);
+  if (classNames.some(name => SUBTITLE_CLASS.test(name))) return 'subtitle';
+  if (classNames.some(name => LABEL_CLASS.test(name))) return 'label';
+  if (classNames.some(name => TITLE_CLASS.test(name))) return 'title';
+  return undefined;
+}
+
+/**
+ * Break a heading element into parts at <br> and at marked spans
+ * (<span class="chapnum">12</span> The Long Night). Adjacent parts marked
+ * the same way are joined: <span epub:type="label">Chapter</span>
+ * <span epub:type="ordinal">XII</span> is one label. Given the heading's
+ * path, each part carries the path of the element it is set in.
+ */
+function getHeadingParts(element: Element, path?: ElementPath): HeadingPart[] {
+  const parts: HeadingPart[] = [];
+  let current: HeadingPart | undefined;
+
+  const visit = (node: ChildNode, kind: HeadingPartKind | undefined, owner?: ElementPath, nodePath?: ElementPath) => {
+    if (isText(node)) {
+      if (!current || current.kind !== kind) {
+        current = { kind, text: '', path: owner };
+        parts.push(current);
+      }
+      current.text += node.data;
+    } else if (isTag(node)) {
+      if (node.name === 'br') {
+        current = undefined;
+        return;
+      }
+      const nodeKind = getHeadingPartKind(node) ?? kind;
+      const nodeOwner = nodeKind !== kind ? nodePath : owner;
+      if (nodeKind !== kind) current = undefined;
+      const elements = node.children.filter(isTag);
+      const childPaths = nodePath ? getChildPaths(nodePath, elements.map(toStyledNode)) : [];
+      node.children.forEach(child => visit(child, nodeKind, nodeOwner, isTag(child) ? childPaths[elements.indexOf(child)] : undefined));
+      if (nodeKind !== kind) current = undefined;
+    }
+  };
+  visit(element, undefined, path, path);
+
+  const merged: HeadingPart[] = [];
+  for (const part of parts) {
+    const text = collapseWhitespace(part.text).trim();
+    if (!text) continue;
+    const last = merged[merged.length - 1];
+    if (last && part.kind && last.kind === part.kind) {
+      last.text += ` ${text}`;
+    } else {
+      merged.push({ kind: part.kind, text, path: part.path });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Sort heading parts into label, title and subtitle. Unmarked text starting
+ * with a number ("Chapter 12: The Long Night", "XII. The Long Night") is split
+ * into label and title; after the title, unmarked lines are the subtitle.
+ */
+function splitChapterHeading(parts: HeadingPart[]): ChapterHeading {
+  const heading: ChapterHeading = {};
+  const append = (field: HeadingPartKind, text: string, path: ElementPath | undefined) => {
+    heading[field] = heading[field] ? `${heading[field]} ${text}` : text;
+    if (path) (heading.paths ??= {})[field] ??= path;
+  };
+
+  for (const { kind, text, path } of parts) {
+    const split = kind === 'label' || (!kind && !heading.label && !heading.title) ? splitNumberLabel(text) : undefined;
+    if (kind === 'label' || split) {
+      append('label', split?.label ?? text, path);
+      heading.number ??= split?.number;
+      if (!split?.rest) continue;
+    }
+    const rest = split?.rest ?? text;
+    append(kind && kind !== 'label' ? kind : heading.title ? 'subtitle' : 'title', rest, path);
+  }
+
+  return heading;
+}
+
+/**
+ * A heading with only the title can take its number from the TOC entry
+ * ("Chapter 12: The Long Night" in the nav, "The Long Night" in the text)
+ */
+function withNavLabelNumber(heading: ChapterHeading, navLabel: string): ChapterHeading {
+  if (heading.label || !navLabel) return heading;
+  const { label, number, title } = splitChapterHeading([{ text: navLabel }]);
+  if (!label || (heading.title && title?.toLowerCase() !== heading.title.toLowerCase())) return heading;
+  return { ...heading, label, number };
+}
+
+/**
+ * Split a leading number label off heading text. Without a label word the
+ * number must stand alone or be followed by punctuation, so titles such as
+ * "Seven Days" or "I Am Legend" are left whole.
+ */
+function splitNumberLabel(text: string): { label: string; number: number; rest: string } | undefined {
+  const labelWord = NUMBER_LABEL_WORDS.exec(text);
+  const start = labelWord ? labelWord[0].length : 0;
+  const found = matchNumber(text.slice(start), !!labelWord);
+  if (!found) return undefined;
+
+  const end = start + found.length;
+  const separator = (labelWord ? /^(\s*[.:—–]\s*|\s+-\s+|\s+|$)/ : /^(\s*[.:—–]\s*|\s+-\s+|$)/).exec(text.slice(end));
+  if (!separator) return undefined;
+
+  return { label: text.slice(0, end), number: found.value, rest: text.slice(end + separator[0].length).trim() };
+}
+
+/**
+ * Number at the start of text: digits, a roman numeral (upper case unless it
+ * follows a label word) or spelled out ("Twenty-One")
+ */
+function matchNumber(text: string, afterLabelWord: boolean): { value: number; length: number } | undefined {
+  const digits = /^\d{1,3}(?!\d)/.exec(text);
+  if (digits) return { value: parseInt(digits[0], 10), length: digits[0].length };
+
+  const roman = /^[ivxlcdm]+(?![a-z])/i.exec(text);
+  if (roman && ROMAN_NUMERAL.test(roman[0]) && (afterLabelWord || roman[0] === roman[0].toUpperCase())) {
+    return { value: parseRomanNumeral(roman[0]), length: roman[0].length };
+  }
+
+  // Longest run of words that reads as a number
+  const words: { word: string; end: number }[] = [];
+  const wordPattern = /([a-z]+)[\s-]*/iy;
+  for (let match = wordPattern.exec(text); match && words.length < 6; match = wordPattern.exec(text)) {
+    words.push({ word: match[1].toLowerCase(), end: match.index + match[1].length });
+  }
+  for (let count = words.length; count > 0; count--) {
+    const value = parseSpelledNumber(words.slice(0, count).map(({ word }) => word));
+    if (value !== undefined) return { value, length: words[count - 1].end };
+  }
+  return undefined;
+}
+
+function parseRomanNumeral(numeral: string): number {
+  const values = [...numeral.toLowerCase()].map(char => ROMAN_VALUES[char]);
+  return values.reduce((total, value, i) => total + (value < (values[i + 1] ?? 0) ? -value : value), 0);
+}
+
+/**
+ * "twelve", "twenty one", "one hundred and two" -> number; undefined for
+ * anything else, including misordered words ("one twenty")
+ */
+function parseSpelledNumber(words: string[]): number | undefined {
+  let total = 0;
+  for (const [i, word] of words.entries()) {
+    if (word === 'and' && i > 0 && i < words.length - 1) continue;
+    if (word === 'hundred') {
+      if (total === 0 || total >= 100) return undefined;
+      total *= 100;
+      continue;
+    }
+    const value = NUMBER_WORDS[word];
+    const rest = total % 100;
+    if (value === undefined || (value < 10 ? rest % 10 !== 0 || rest === 10 : rest !== 0)) return undefined;
+    total += value;
+  }
+  return total > 0 ? total : undefined;
+}
+
+// =============================================================================
+// NOTES
+// =============================================================================
+
+// Note references found across the whole spine, as zip path#id
+interface NoteReferences {
+  targets: Set<string>;  // elements referenced as notes
+  anchors: Set<string>;  // the referencing links themselves (backlink targets)
+}
+
+/**
+ * Find every note that is actually referenced from the text: targets of
+ * epub:type="noteref" / role="doc-noteref" links, plus elements typed as
+ * footnote/endnote that some link points at. Unreferenced notes are left
+ * in place so no text is lost.
+ */
+function collectNoteReferences(documents: { path: string; html: string }[]): NoteReferences {
+  const typedNotes = new Set<string>();
+  const links: { source: string; target: string; isNoteRef: boolean }[] = [];
+
+  for (const { path, html } of documents) {
+    const document = parseDocument(html, XHTML_PARSER_OPTIONS);
+    // Any id inside a typed note counts - links often target an anchor within it
+    for (const note of DomUtils.findAll(isNoteElement, document.children)) {
+      DomUtils.findAll(el => el.attribs.id !== undefined, [note])
+        .forEach(el => typedNotes.add(`${path}#${el.attribs.id}`));
+    }
+
+    for (const anchor of findAllElements(document, 'a')) {
+      const href = anchor.attribs.href;
+      if (!href || !href.includes('#') || /^[a-z][a-z0-9+.-]*:/i.test(href)) continue;
+      links.push({
+        source: `${path}#${anchor.attribs.id ?? ''}`,
+        target: resolveZipHref(path, href),
+        isNoteRef: hasStructuralType(anchor, 'noteref', 'doc-noteref'),
+      });
+    }
+  }
+
+  const references: NoteReferences = { targets: new Set(), anchors: new Set() };
+  for (const link of links) {
+    if (link.isNoteRef || typedNotes.has(link.target)) {
+      references.targets.add(link.target);
+      if (!link.source.endsWith('#')) references.anchors.add(link.source);
+    }
+  }
+  return references;
+}
+
+/**
+ * Lift referenced notes out of a content document. A note that is only an
+ * anchor inside a paragraph (<p><a id="fn1"/>...</p>) takes its paragraph.
+ * Backlinks are removed, and so are footnote/endnote sections left empty.
+ */
+function extractNotes(document: Document, chapterPath: string, references: NoteReferences, styleMap: StyleMap): Note[] {
+  const noteElements = new Set<Element>();
+  for (const element of DomUtils.findAll(el => el.attribs.id !== undefined, document.children)) {
+    if (!references.targets.has(`${chapterPath}#${element.attribs.id}`)) continue;
+
+    // The whole typed note if the target is inside one, else the target's block
+    let noteElement = element;
+    while (INLINE_TAGS.has(noteElement.name) && noteElement.parent && isTag(noteElement.parent)) {
+      noteElement = noteElement.parent;
+    }
+    for (let ancestor: ParentNode | null = element; ancestor && isTag(ancestor); ancestor = ancestor.parent) {
+      if (isNoteElement(ancestor)) {
+        noteElement = ancestor;
+        break;
+      }
+    }
+    if (noteElement.name !== 'body' && noteElement.name !== 'html') {
+      noteElements.add(noteElement);
+    }
+  }
+
+  const notes: Note[] = [];
+  for (const element of noteElements) {
+    // Notes nested inside another extracted note travel with it
+    let ancestor = DomUtils.getParent(element);
+    while (ancestor && isTag(ancestor) && !noteElements.has(ancestor)) ancestor = DomUtils.getParent(ancestor);
+    if (ancestor && isTag(ancestor)) continue;
+
+    const ids = DomUtils.findAll(el => el.attribs.id !== undefined, [element]).map(el => el.attribs.id);
+    const parent = DomUtils.getParent(element);
+
+    removeBacklinks(element, chapterPath, references);
+    DomUtils.removeElement(element);
+
+    const kind = hasStructuralType(element, 'endnote', 'doc-endnote') || hasStructuralType(element, 'rearnote', 'doc-endnote')
+      ? 'endnote'
+      : 'footnote';
+    const content = elementToNode(element);
+
+    // A note can be targeted by its own id or by an anchor inside it
+    for (const id of ids) {
+      const noteId = `${chapterPath}#${id}`;
+      if (references.targets.has(noteId)) {
+        notes.push({ id: noteId, kind, content, styleMap });
+      }
+    }
+
+    if (parent && isTag(parent)) removeEmptyNoteSections(parent);
+  }
+
+  return notes;
+}
+
+/**
+ * Remove links from a note back to its reference ("↩", "1.", "[1]")
+ */
+function removeBacklinks(note: Element, chapterPath: string, references: NoteReferences): void {
+  for (const anchor of findAllElements(note, 'a')) {
+    const href = anchor.attribs.href;
+    const pointsAtReference = href !== undefined && references.anchors.has(resolveZipHref(chapterPath, href));
+    const isShort = getElementText(anchor).length <= 5;
+
+    if (hasStructuralType(anchor, 'backlink', 'doc-backlink') || (pointsAtReference && isShort)) {
+      DomUtils.removeElement(anchor);
+    }
+  }
+}
+
+/**
+ * After notes are lifted out, drop the containers (aside epub:type="footnotes",
+ * section role="doc-endnotes", <ol> wrappers...) that no longer hold any text
+ */
+function removeEmptyNoteSections(element: Element): void {
+  let current: Element | null = element;
+  while (current && current.name !== 'body' && current.name !== 'html') {
+    const isEmpty = getElementText(current).length === 0 && !DomUtils.findOne(isImageElement, current.children, true);
+    if (!isEmpty) return;
+
+    const parent: ParentNode | null = DomUtils.getParent(current);
+    DomUtils.removeElement(current);
+    current = parent && isTag(parent) ? parent : null;
+  }
+}
+
+function isNoteElement(element: Element): boolean {
+  return hasStructuralType(element, 'footnote', 'doc-footnote')
+    || hasStructuralType(element, 'endnote', 'doc-endnote')
+    || hasStructuralType(element, 'rearnote', 'doc-endnote');
+}
+
+/**
+ * Whether an element carries an epub:type token or the matching DPUB-ARIA role
+ */
+function hasStructuralType(element: Element, epubType: string, role: string): boolean {
+  const types = (element.attribs['epub:type'] || '').split(/\s+/);
+  const roles = (element.attribs.role || '').split(/\s+/);
+  return types.includes(epubType) || roles.includes(role);
+}
+
+// =============================================================================
+// HTML TO TREE PARSER
+// =============================================================================
+
+// Block-level elements - always become their own ContentNode
+const BLOCK_TAGS = new Set([
+  'body', 'div', 'section', 'article', 'blockquote', 'aside', 'nav',
+  'header', 'footer', 'main', 'figure', 'figcaption', 'p', 'li', 'ul', 'ol',
+  'dl', 'dt', 'dd', 'pre', 'address', 'hgroup', 'center', 'details', 'summary',
+  'table', 'thead', 'tbody', 'tfoot', 'tr', 'td', 'th', 'caption',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr'
+]);
+
+// Text elements that are always text nodes, even when empty
+const TEXT_TAGS = new Set([
+  'p', 'span', 'li'
+]);
+
+// Inline formatting elements kept as runs inside text nodes
+const INLINE_TAGS = new Set([
+  'em', 'i', 'strong', 'b', 'sup', 'sub', 'span', 'small', 'cite', 'u',
+  's', 'strike', 'del', 'ins', 'mark', 'abbr', 'dfn', 'q', 'code', 'var',
+  'kbd', 'samp', 'a', 'bdi', 'bdo', 'time', 'br'
+]);
+
+// Elements whose content is never rendered
+const SKIPPED_TAGS = new Set([
+  'head', 'script', 'style', 'template', 'title'
+]);
+
+const HEADING_TAGS = new Set([
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6'
+]);
+
+// Elements with no print form, reported so the book can be fixed: some are
+// left out, some print only their fallback content or their text
+const UNPRINTABLE_ELEMENTS = new Map<string, Omit<Diagnostic, 'source'>>([
+  ['video', { severity: 'error', message: 'Video cannot be printed - only its fallback text appears' }],
+  ['audio', { severity: 'error', message: 'Audio cannot be printed - only its fallback text appears' }],
+  ['iframe', { severity: 'error', message: 'Embedded document (iframe) is left out' }],
+  ['object', { severity: 'error', message: 'Embedded object cannot be printed - only its fallback content appears' }],
+  ['embed', { severity: 'error', message: 'Embedded content (embed) is left out' }],
+  ['canvas', { severity: 'error', message: 'Canvas drawing cannot be printed - only its fallback content appears' }],
+  ['svg', { severity: 'error', message: 'SVG drawing cannot be printed - only its text appears' }],
+  ['math', { severity: 'warning', message: 'MathML is printed as plain text' }],
+  ['form', { severity: 'warning', message: 'Form fields are left out' }],
+]);
+
+// Void elements to skip (img and svg are handled as image nodes, br as a line break run)
+const VOID_TAGS = new Set([
+  'input', 'meta', 'link', 'area', 'base',
+  'col', 'embed', 'param', 'source', 'track', 'wbr'
+]);
+
+// Text of a paragraph that is only a scene break: "***", "* * *", "#", "⁂"...
+const SCENE_BREAK_TEXT = /^[*#⁂~•·◆◇♦❧☙✱✻❦\s\u00a0]+$/;
+
+// Classes EPUB producers give to scene break paragraphs and divs
+const SCENE_BREAK_CLASS = /^(scene-?break|section-?break|space-?break|scenebrk|transition|separator|ornament|dinkus)$/i;
+
+// htmlparser2 options for EPUB XHTML content documents
+const XHTML_PARSER_OPTIONS = {
+  lowerCaseTags: true,
+  lowerCaseAttributeNames: false,
+  recognizeSelfClosing: true,
+  recognizeCDATA: true,
+  decodeEntities: true,
+};
+
+/**
+ * Report the unprintable elements in a document, once per kind
+ */
+function findUnprintableElements(document: Document, chapterPath: string): Diagnostic[] {
+  const counts = new Map<string, number>();
+  const isUnprintable = (element: Element) => UNPRINTABLE_ELEMENTS.has(element.name) && !isImageElement(element);
+  for (const element of DomUtils.findAll(isUnprintable, document.children)) {
+    counts.set(element.name, (counts.get(element.name) ?? 0) + 1);
+  }
+
+  return [...counts].map(([name, count]) => {
+    const { severity, message } = UNPRINTABLE_ELEMENTS.get(name)!;
+    return { severity, source: chapterPath, message: count > 1 ? `${message} (${count} times)` : message };
+  });
+}
+
+/**
+ * Parse HTML into a ContentNode tree
+ */
+function parseHtmlToTree(
+  html: string,
+  chapterPath: string,
+  noteReferences: NoteReferences,
+  stylesheets: StylesheetCache,
+  diagnostics: Diagnostic[],
+  declaredRole?: PageRole
+): {
+  chapterTitle: string;
+  chapterHeading?: ChapterHeading;  // from the title heading and its number/subtitle lines
+  titleHeadings: ContentNode[];  // h1/h2 taken out of the content as the title/author
+  contentTree: ContentNode;
+  styleMap: StyleMap;
+  typedRole?: PageRole;  // from epub:type on the body or its top-level sections
+  author?: string;
+  notes: Note[];
+} {
+  const document = parseDocument(html, XHTML_PARSER_OPTIONS);
+  const styleMap = getDocumentStyleMap(document, chapterPath, stylesheets, diagnostics);
+  diagnostics.push(...findUnprintableElements(document, chapterPath));
+
+  // Detect page type
+  const typedRole = getTypedRole(document);
+  const isTitlePage = (declaredRole ?? typedRole) === 'titlepage';
+
+  // Lift referenced footnotes/endnotes out before looking for headings
+  const notes = extractNotes(document, chapterPath, noteReferences, styleMap);
+  preserveSourceLineBreaks(document, styleMap);
+
+  // Extract title and author
+  let chapterTitle = '';
+  let chapterHeading: ChapterHeading | undefined;
+  let author = '';
+
+  const h1 = findFirstElement(document, 'h1');
+  const h2 = findFirstElement(document, 'h2');
+  const titleElement = findFirstElement(document, 'title');
+
+  // Headings used as title/author are removed from the content;
+  // every other heading stays in the tree as a subhead
+  const usedHeadings: Element[] = [];
+
+  if (h1) {
+    chapterTitle = getElementText(h1);
+    usedHeadings.push(h1);
+  } else if (titleElement && !isTitlePage) {
+    chapterTitle = getElementText(titleElement);
+  }
+
+  if (isTitlePage && h2) {
+    author = getElementText(h2);
+    usedHeadings.push(h2);
+  } else if (!isTitlePage && h2 && !h1) {
+    chapterTitle = getElementText(h2);
+    usedHeadings.push(h2);
+  }
+
+  // The number and subtitle often sit in elements of their own around the title
+  const titleHeading = isTitlePage ? undefined : usedHeadings[0];
+  if (titleHeading) {
+    const group = findHeadingGroup(titleHeading);
+    chapterHeading = splitChapterHeading(group.flatMap(element => getHeadingParts(element, getElementPath(element))));
+    // Lines run together in the text content, so rebuild the title from its parts
+    if (group.length > 1 || DomUtils.findOne(el => el.name === 'br', [titleHeading])) {
+      chapterTitle = [chapterHeading.label, chapterHeading.title].filter(Boolean).join(': ');
+    }
+    usedHeadings.splice(0, 1, ...group);
+  }
+
+  for (const heading of usedHeadings) {
+    DomUtils.removeElement(heading);
+  }
+
+  // Parse body into tree (fall back to the whole document for fragments)
+  const body = findFirstElement(document, 'body');
+  const contentTree = body
+    ? elementToNode(body)
+    : { type: 'container' as const, tagName: 'body', classNames: [], attributes: {}, children: childrenToNodes(document.children) };
+
+  return {
+    chapterTitle,
+    chapterHeading,
+    titleHeadings: usedHeadings.map(elementToNode),
+    contentTree,
+    styleMap,
+    typedRole,
+    author: author || undefined,
+    notes,
+  };
+}
+
+/**
+ * Turn source line breaks inside preformatted elements (<pre>, or CSS
+ * white-space: pre / pre-wrap / pre-line) into <br>, keeping each line's
+ * indentation as no-break spaces, so whitespace collapsing leaves them alone
+ */
+function preserveSourceLineBreaks(document: Document, styleMap: StyleMap): void {
+  const preformatted: [Element, string][] = [];
+  const visit = (elements: Element[], parent: ElementPath | undefined) => {
+    const paths = getChildPaths(parent, elements.map(toStyledNode));
+    elements.forEach((element, i) => {
+      const whiteSpace = getWhiteSpace(element, paths[i]!, styleMap);
+      if (whiteSpace) preformatted.push([element, whiteSpace]);
+      visit(element.children.filter(isTag), paths[i]);
+    });
+  };
+  const body = findFirstElement(document, 'body');
+  visit(body ? [body] : document.children.filter(isTag), undefined);
+
+  for (const [element, whiteSpace] of preformatted) {
+    const keepIndent = whiteSpace !== 'pre-line';
+
+    for (const textNode of DomUtils.filter(isText, [element], true) as Text[]) {
+      // Like HTML, ignore a newline straight after the opening tag
+      const data = textNode === element.firstChild ? textNode.data.replace(/^\r?\n/, '') : textNode.data;
+      if (!/[\r\n]/.test(data)) continue;
+
+      data.split(/\r?\n/).forEach((line, i) => {
+        if (i > 0) DomUtils.prepend(textNode, new Element('br', {}));
+        const text = keepIndent
+          ? line.replace(/^[ \t]+/, indent => indent.replace(/\t/g, '    ').replace(/ /g, '\u00a0'))
+          : line;
+        if (text.length > 0) DomUtils.prepend(textNode, new Text(text));
+      });
+      DomUtils.removeElement(textNode);
+    }
+  }
+}
+
+/**
+ * The preformatted white-space mode of an element (<pre>, inline style or
+ * stylesheet), or undefined when whitespace collapses normally
+ */
+function getWhiteSpace(element: Element, path: ElementPath, styleMap: StyleMap): string | undefined {
+  const whiteSpace: string | undefined =
+    getStylesForElement(styleMap, path).whiteSpace
+    ?? (element.name === 'pre' ? 'pre' : undefined);
+  return whiteSpace && /^pre(-wrap|-line)?$/.test(whiteSpace) ? whiteSpace : undefined;
+}
+
+/**
+ * Convert a DOM element into a ContentNode
+ * - no block-level content: text node with inline runs
+ * - otherwise: container whose children are converted recursively
+ */
+function elementToNode(element: Element): ContentNode {
+  const base = {
+    tagName: element.name,
+    classNames: extractClassNames(element),
+    id: element.attribs.id,
+    attributes: { ...element.attribs },
+    style: extractInlineStyle(element),
+  };
+
+  if (isSceneBreak(element)) {
+    const ornament = DomUtils.findOne(isImageElement, element.children, true);
+    return { type: 'scene-break', ...base, src: ornament ? imageElementToNode(ornament)?.src : undefined };
+  }
+
+  if (!hasBlockContent(element)) {
+    const runs = childrenToRuns(element.children);
+    const text = runsToText(runs);
+    const anchors = getInlineIds(element.children);
+
+    if (HEADING_TAGS.has(element.name)) {
+      return { type: 'heading', ...base, anchors, text, runs, level: Number(element.name[1]) };
+    }
+
+    // Unknown or structural elements with no text stay (empty) containers
+    if (text.length > 0 || TEXT_TAGS.has(element.name)) {
+      return { type: 'text', ...base, anchors, text, runs };
+    }
+    return { type: 'container', ...base, anchors, children: [] };
+  }
+
+  if (element.name === 'table') {
+    const table = tableElementToNode(element, base);
+    if (table) return table;
+  }
+
+  const children = childrenToNodes(element.children);
+
+  if (element.name === 'ul' || element.name === 'ol') {
+    return { type: 'list', ...base, children, list: getListInfo(element, children) };
+  }
+
+  return { type: 'container', ...base, children };
+}
+
+/**
+ * Whether an element marks a scene break: <hr>, a classed scene-break
+ * element (possibly holding an ornament image), or a paragraph of only
+ * "***", "#" or similar
+ */
+function isSceneBreak(element: Element): boolean {
+  if (element.name === 'hr') return true;
+
+  const text = DomUtils.textContent(element);
+  const isOrnamentOnly = text.trim().length === 0 || SCENE_BREAK_TEXT.test(text);
+
+  if (extractClassNames(element).some(name => SCENE_BREAK_CLASS.test(name))) {
+    return isOrnamentOnly;
+  }
+  if (element.name !== 'p' && element.name !== 'div') return false;
+  return text.trim().length > 0 && SCENE_BREAK_TEXT.test(text) && !hasBlockContent(element);
+}
+
+/**
+ * Convert a <table> into table > table-row > table-cell nodes.
+ * thead/tbody/tfoot are flattened into rows, each row keeping its section
+ * for the CSS; caption stays as a leading child.
+ * Returns null for tables without rows so they fall back to a plain container.
+ */
+function tableElementToNode(
+  element: Element,
+  base: Pick<ContentNode, 'tagName' | 'classNames' | 'id' | 'attributes'>
+): ContentNode | null {
+  const leading: ContentNode[] = [];
+  const rows: ContentNode[] = [];
+
+  const addRow = (tr: Element, isHeader: boolean, section?: TableSection) => {
+    const cells = tr.children
+      .filter(isTag)
+      .filter(cell => cell.name === 'td' || cell.name === 'th')
+      .map((cell): ContentNode => {
+        const colSpan = parseInt(cell.attribs.colspan, 10);
+        return {
+          type: 'table-cell',
+          tagName: cell.name,
+          classNames: extractClassNames(cell),
+          id: cell.attribs.id,
+          attributes: { ...cell.attribs },
+          colSpan: colSpan > 1 ? colSpan : 1,
+          children: childrenToNodes(cell.children),
+        };
+      });
+
+    rows.push({
+      type: 'table-row',
+      tagName: 'tr',
+      classNames: extractClassNames(tr),
+      id: tr.attribs.id,
+      attributes: { ...tr.attribs },
+      isHeader,
+      section,
+      children: cells,
+    });
+  };
+
+  for (const child of element.children.filter(isTag)) {
+    if (child.name === 'caption') {
+      leading.push(elementToNode(child));
+    } else if (child.name === 'tr') {
+      addRow(child, false);
+    } else if (child.name === 'thead' || child.name === 'tbody' || child.name === 'tfoot') {
+      const section: TableSection = {
+        tagName: child.name,
+        classNames: extractClassNames(child),
+        id: child.attribs.id,
+        attributes: { ...child.attribs },
+        style: extractInlineStyle(child),
+      };
+      for (const tr of child.children.filter(isTag).filter(row => row.name === 'tr')) {
+        addRow(tr, child.name === 'thead', section);
+      }
+    }
+  }
+
+  if (rows.length === 0) return null;
+
+  // No thead: leading rows made only of th cells are the header
+  if (!rows.some(row => row.isHeader)) {
+    for (const row of rows) {
+      const cells = row.children!;
+      if (cells.length === 0 || !cells.every(cell => cell.tagName === 'th')) break;
+      row.isHeader = true;
+    }
+  }
+
+  return { type: 'table', ...base, children: [...leading, ...rows] };
+}
+
+// HTML type attribute -> CSS list-style-type
+const LIST_TYPE_ATTRIBUTES: Record<string, string> = {
+  '1': 'decimal',
+  'a': 'lower-alpha',
+  'A': 'upper-alpha',
+  'i': 'lower-roman',
+  'I': 'upper-roman',
+  'disc': 'disc',
+  'circle': 'circle',
+  'square': 'square',
+  'none': 'none',
+};
+
+/**
+ * Read list numbering from ul/ol attributes
+ */
+function getListInfo(element: Element, children: ContentNode[]): ListInfo {
+  const ordered = element.name === 'ol';
+  const reversed = ordered && element.attribs.reversed !== undefined;
+  const itemCount = children.filter(child => child.tagName === 'li').length;
+  const start = parseInt(element.attribs.start, 10);
+
+  return {
+    ordered,
+    start: isNaN(start) ? (reversed ? itemCount : 1) : start,
+    reversed,
+    markerType: LIST_TYPE_ATTRIBUTES[element.attribs.type] ?? LIST_TYPE_ATTRIBUTES[element.attribs.type?.toLowerCase()],
+  };
+}
+
+/**
+ * Convert the children of a block container into ContentNodes,
+ * grouping consecutive text and inline elements into anonymous text nodes.
+ * Those are no elements: CSS selectors and sibling counts pass over them.
+ */
+function childrenToNodes(nodes: ChildNode[]): ContentNode[] {
+  const result: ContentNode[] = [];
+  let inlineGroup: ChildNode[] = [];
+
+  const flushInlineGroup = () => {
+    if (inlineGroup.length === 0) return;
+    const runs = childrenToRuns(inlineGroup);
+    const text = runsToText(runs);
+    if (text.length > 0) {
+      result.push({ type: 'text', tagName: '#text', classNames: [], attributes: {}, anchors: getInlineIds(inlineGroup), text, runs });
+    }
+    inlineGroup = [];
+  };
+
+  for (const node of nodes) {
+    if (isTag(node)) {
+      if (SKIPPED_TAGS.has(node.name) || VOID_TAGS.has(node.name)) continue;
+
+      if (isImageElement(node)) {
+        flushInlineGroup();
+        const image = imageElementToNode(node);
+        if (image) result.push(image);
+      } else if (INLINE_TAGS.has(node.name) && !hasBlockContent(node)) {
+        inlineGroup.push(node);
+      } else {
+        flushInlineGroup();
+        result.push(elementToNode(node));
+      }
+    } else if (isText(node) || isCDATA(node)) {
+      inlineGroup.push(node);
+    }
+  }
+
+  flushInlineGroup();
+  return result;
+}
+
+/**
+ * Whether an element contains block-level content.
+ * Unknown elements count as blocks only if they themselves contain blocks.
+ */
+function hasBlockContent(element: Element): boolean {
+  return element.children.some(child => isTag(child) && isBlockElement(child));
+}
+
+function isBlockElement(element: Element): boolean {
+  if (SKIPPED_TAGS.has(element.name) || VOID_TAGS.has(element.name)) return false;
+  if (BLOCK_TAGS.has(element.name) || isImageElement(element)) return true;
+  return hasBlockContent(element);
+}
+
+/**
+ * Whether an element is an image: <img>, or an <svg> wrapping an <image>
+ * (the usual cover markup). Images are laid out as blocks.
+ */
+function isImageElement(element: Element): boolean {
+  if (element.name === 'img') return true;
+  return element.name === 'svg' && findFirstElement(element, 'image') !== null;
+}
+
+/**
+ * Convert <img> or <svg><image/></svg> to an image node (src still relative)
+ */
+function imageElementToNode(element: Element): ContentNode | null {
+  const imageElement = element.name === 'svg' ? findFirstElement(element, 'image')! : element;
+  const src = imageElement.attribs.src || imageElement.attribs['xlink:href'] || imageElement.attribs.href;
+  if (!src) return null;
+
+  return {
+    type: 'image',
+    tagName: element.name,
+    classNames: extractClassNames(element),
+    id: element.attribs.id,
+    attributes: { ...element.attribs },
+    src,
+    alt: imageElement.attribs.alt,
+  };
+}
+
+/**
+ * Convert inline DOM content into runs, keeping em/strong/sup/sub/span etc.
+ * with their tag, classes and attributes
+ */
+function childrenToRuns(nodes: ChildNode[]): InlineRun[] {
+  const collect = (list: ChildNode[]): InlineRun[] => {
+    const runs: InlineRun[] = [];
+    for (const node of list) {
+      if (isText(node)) {
+        runs.push({ tagName: '#text', classNames: [], attributes: {}, text: collapseWhitespace(node.data) });
+      } else if (isCDATA(node)) {
+        runs.push(...collect(node.children));
+      } else if (isTag(node)) {
+        if (SKIPPED_TAGS.has(node.name) || VOID_TAGS.has(node.name)) continue;
+        if (node.name === 'br') {
+          runs.push({ tagName: '#text', classNames: [], attributes: {}, text: '\n' });
+          continue;
+        }
+        runs.push({
+          tagName: node.name,
+          classNames: extractClassNames(node),
+          id: node.attribs.id,
+          attributes: { ...node.attribs },
+          style: extractInlineStyle(node),
+          children: collect(node.children),
+        });
+      }
+    }
+    return runs;
+  };
+
+  return normalizeRunWhitespace(collect(nodes));
+}
+
+/**
+ * Collapse whitespace across run boundaries, trim the ends and drop empty runs.
+ * Line breaks (br) trim the space around them like the ends of the text.
+ */
+function normalizeRunWhitespace(runs: InlineRun[]): InlineRun[] {
+  const leaves: InlineRun[] = [];
+  const collectLeaves = (list: InlineRun[]) => {
+    for (const run of list) {
+      if (run.text !== undefined) leaves.push(run);
+      if (run.children) collectLeaves(run.children);
+    }
+  };
+  collectLeaves(runs);
+
+  let previousEndsWithSpace = true; // true at the start so leading space is trimmed
+  let previousLeaf: InlineRun | null = null;
+  for (const leaf of leaves) {
+    if (leaf.text === '\n') {
+      if (previousLeaf) previousLeaf.text = previousLeaf.text!.replace(/ $/, '');
+      previousEndsWithSpace = true;
+      previousLeaf = null;
+      continue;
+    }
+    if (previousEndsWithSpace) {
+      leaf.text = leaf.text!.replace(/^ /, '');
+    }
+    if (leaf.text!.length > 0) {
+      previousEndsWithSpace = leaf.text!.endsWith(' ');
+      previousLeaf = leaf;
+    }
+  }
+
+  // A trailing br adds no empty line
+  for (let i = leaves.length - 1; i >= 0; i--) {
+    leaves[i].text = leaves[i].text!.replace(/ $/, '').replace(/^\n$/, '');
+    if (leaves[i].text!.length > 0) break;
+  }
+
+  const prune = (list: InlineRun[]): InlineRun[] =>
+    list
+      .map(run => (run.children ? { ...run, children: prune(run.children) } : run))
+      .filter(run => (run.children ? run.children.length > 0 : run.text!.length > 0));
+
+  return prune(runs);
+}
+
+/**
+ * Flatten inline runs to plain text
+ */
+function runsToText(runs: InlineRun[]): string {
+  return runs.map(run => run.text ?? runsToText(run.children || [])).join('');
+}
+
+// =============================================================================
+// UTILITIES
+// =============================================================================
+
+/**
+ * Extract class names from an element's class attribute
+ */
+function extractClassNames(element: Element): string[] {
+  const classAttr = element.attribs.class;
+  if (!classAttr) return [];
+  return classAttr.split(/\s+/).filter(c => c.length > 0);
+}
+
+/**
+ * Ids of inline elements (often empty <a id> page anchors), which do not
+ * survive as runs of their own; the text node holding them takes them over
+ */
+function getInlineIds(nodes: ChildNode[]): string[] | undefined {
+  const ids = DomUtils.findAll(el => !!el.attribs.id, nodes).map(el => el.attribs.id);
+  return ids.length > 0 ? ids : undefined;
+}
+
+/**
+ * An element as the CSS cascade sees it
+ */
+/**
+ * Path of an element from its document's body, for matching it against
+ * the CSS once it has been taken out of the tree
+ */
+function getElementPath(element: Element): ElementPath {
+  const parent = element.name !== 'body' && element.parent && isTag(element.parent) ? element.parent : undefined;
+  const siblings = parent ? parent.children.filter(isTag) : [element];
+  return getChildPaths(parent && getElementPath(parent), siblings.map(toStyledNode))[siblings.indexOf(element)]!;
+}
+
+function toStyledNode(element: Element): StyledNode {
+  return {
+    tagName: element.name,
+    classNames: extractClassNames(element),
+    attributes: element.attribs,
+    style: extractInlineStyle(element),
+  };
+}
+
+/**
+ * Convert an element's style attribute to react-pdf styles
+ */
+function extractInlineStyle(element: Element): Record<string, unknown> | undefined {
+  if (!element.attribs.style) return undefined;
+  const style = parseDeclarationBlock(element.attribs.style);
+  return Object.keys(style).length > 0 ? style : undefined;
+}
+
+/**
+ * Find the first element with a given tag name (document order)
+ */
+function findFirstElement(root: Document | Element, tagName: string): Element | null {
+  return DomUtils.findOne(el => el.name === tagName, root.children, true);
+}
+
+/**
+ * Find all elements with a given tag name, ignoring any namespace prefix
+ * (OPF files use both <item> and <opf:item>)
+ */
+function findAllElements(root: Document | Element, tagName: string): Element[] {
+  return DomUtils.findAll(el => el.name === tagName || el.name.endsWith(`:${tagName}`), root.children);
+}
+
+/**
+ * Get the whitespace-normalized text content of an element
+ */
+function getElementText(element: Element): string {
+  return collapseWhitespace(DomUtils.textContent(element)).trim();
+}
+
+/**
+ * Collapse runs of HTML whitespace (not &nbsp;) to a single space
+ */
+function collapseWhitespace(text: string): string {
+  return text.replace(/[ \t\n\r\f]+/g, ' ');
+}
+
+/**
+ * Percent-decode an href; a malformed escape ("50%.jpg") leaves it as written
+ */
+function decodeHref(href: string): string {
+  try {
+    return decodeURIComponent(href);
+  } catch {
+    return href;
+  }
+}
+
+/**
+ * Resolve a relative href against the zip path of the file containing it
+ * "OEBPS/text/ch1.xhtml" + "../images/map.jpg" -> "OEBPS/images/map.jpg"
+ */
+function resolveZipPath(basePath: string, href: string): string {
+  const cleanHref = decodeHref(href.split(/[?#]/)[0]);
+  const segments = basePath.split('/').slice(0, -1);
+
+  for (const segment of cleanHref.split('/')) {
+    if (segment === '..') {
+      segments.pop();
+    } else if (segment !== '.' && segment !== '') {
+      segments.push(segment);
+    }
+  }
+
+  return segments.join('/');
 }
 
 /**
- * Decode common HTML entities
+ * Resolve a relative href like resolveZipPath, keeping any #fragment
  */
-function decodeHtmlEntities(text: string): string {
-  return text
-    .replace(/&nbsp;/g, ' ')
-    .replace(/&amp;/g, '&')
-    .replace(/&lt;/g, '<')
-    .replace(/&gt;/g, '>')
-    .replace(/&quot;/g, '"')
-    .replace(/&#39;/g, "'")
-    .replace(/&apos;/g, "'")
-    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
-    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)));
+function resolveZipHref(basePath: string, href: string): string {
+  const hashIndex = href.indexOf('#');
+  if (hashIndex === -1) return resolveZipPath(basePath, href);
+  // Fragment-only href points into the base document itself
+  const path = hashIndex === 0 ? basePath : resolveZipPath(basePath, href.slice(0, hashIndex));
+  return `${path}${href.slice(hashIndex)}`;
 }
@@ -0,0 +1,316 @@
+/**
+ * Smart Typography
+ *
+ * Optional pass over parsed text that sets what a typesetter would: curly
+ * quotes for the book's language, proper dashes and ellipses, no-break
+ * spaces that keep numbers with their units and initials with the name,
+ * and French spacing before high punctuation.
+ *
+ * Only punctuation and spaces change - letters and digits are never added,
+ * removed or reordered. Code (code, kbd, samp, pre) is left as written.
+ */
+
+import type { ContentNode, InlineRun } from './epubParser';
+
+export type TypographyOption = 'quotes' | 'dashes' | 'ellipses' | 'no-break-spaces' | 'french-spacing';
+
+// Piece of text owned by a run; edits that cross runs go to the run they start in
+interface TextLeaf {
+  text: string;
+  isProtected: boolean;  // code - context for the quotes around it, never changed
+}
+
+interface Edit {
+  start: number;
+  end: number;
+  replacement: string;
+}
+
+// Also used where French takes a narrow no-break space: EB Garamond has no U+202F
+const NBSP = '\u00a0';
+
+// Elements whose text is printed exactly as written
+const VERBATIM_TAGS = new Set(['code', 'kbd', 'samp', 'tt', 'var', 'pre']);
+
+// =============================================================================
+// QUOTES
+// =============================================================================
+
+// [open double, close double, open single, close single] by language
+const QUOTE_MARKS: Record<string, [string, string, string, string]> = {
+  en: ['“', '”', '‘', '’'],
+  nl: ['“', '”', '‘', '’'],
+  de: ['„', '“', '‚', '‘'],
+  cs: ['„', '“', '‚', '‘'],
+  pl: ['„', '”', '‚', '’'],
+  fr: ['«', '»', '“', '”'],
+  es: ['«', '»', '“', '”'],
+  it: ['«', '»', '“', '”'],
+  pt: ['«', '»', '“', '”'],
+  ru: ['«', '»', '„', '“'],
+  sv: ['”', '”', '’', '’'],
+  da: ['»', '«', '›', '‹'],
+};
+
+// Words that begin with an apostrophe standing for dropped letters ('tis, 'em)
+const ELIDED_WORDS = /^(tis|twas|twere|twould|twill|em|cause|cos|til|till|n|round|bout|neath|ave|ow|ere)(?![A-Za-z])/i;
+
+// Characters after which a quote mark opens, and before which it closes
+const OPENING_CONTEXT = /[\s([{—–/“‘«‹„‚-]/;
+const CLOSING_CONTEXT = /[\s.,;:!?)\]}—–”’»›]/;
+
+/**
+ * Curly quotes: a mark opens after a space, bracket, dash or a mark that
+ * has just opened ("'Hello'"), and closes before a space or punctuation; a
+ * mark with space on both sides (French " text ") alternates. A single
+ * quote inside a word or before an elided word or a decade ('90s) is an
+ * apostrophe.
+ */
+function setQuotes(text: string, language: string): Edit[] {
+  const [openDouble, closeDouble, openSingle, closeSingle] = QUOTE_MARKS[language] || QUOTE_MARKS.en;
+  const edits: Edit[] = [];
+  const isOpen = { '"': false, "'": false };
+  let openedEnd = -1;  // end of the last mark set as an opening quote
+
+  for (const match of text.matchAll(/["']/g)) {
+    const mark = match[0] as '"' | "'";
+    const index = match.index!;
+    const after = text.slice(index + 1);
+    const afterOpening = index === 0 || index === openedEnd || OPENING_CONTEXT.test(text[index - 1]);
+    const beforeClosing = after === '' || CLOSING_CONTEXT.test(after[0]);
+    const opens = afterOpening === beforeClosing ? afterOpening && !isOpen[mark] : afterOpening;
+
+    let replacement: string;
+    if (mark === '"') {
+      replacement = opens ? openDouble : closeDouble;
+    } else if (opens && (ELIDED_WORDS.test(after) || /^\d\ds?(?!\d)/.test(after))) {
+      edits.push({ start: index, end: index + 1, replacement: '’' });
+      continue;
+    } else {
+      replacement = opens ? openSingle : '’';
+    }
+    isOpen[mark] = opens;
+    if (opens) openedEnd = index + 1;
+    edits.push({ start: index, end: index + 1, replacement });
+  }
+
+  // Closing single quotes are apostrophes unless the language marks them differently
+  if (closeSingle !== '’') {
+    const depth: string[] = [];
+    for (const edit of edits) {
+      if (edit.replacement === openSingle) depth.push(edit.replacement);
+      else if (edit.replacement === '’' && depth.length > 0 && !/[A-Za-z\d]/.test(text[edit.end] ?? '')) {
+        depth.pop();
+        edit.replacement = closeSingle;
+      }
+    }
+  }
+
+  return edits;
+}
+
+// =============================================================================
+// DASHES AND ELLIPSES
+// =============================================================================
+
+/**
+ * "--" and "---" become an em dash, a hyphen standing alone between spaces
+ * an en dash, and a hyphen between two short numbers a range (1990–95)
+ */
+function setDashes(text: string): Edit[] {
+  const edits: Edit[] = [];
+  for (const match of text.matchAll(/(-{2,3})|(^|\s)-(?=\s)|(\d)-(?=\d)/g)) {
+    const index = match.index!;
+    if (match[1]) {
+      edits.push({ start: index, end: index + match[1].length, replacement: '—' });
+    } else if (match[3] !== undefined) {
+      const before = /[\d-]*$/.exec(text.slice(0, index + 1))![0];
+      const after = /^[\d-]*/.exec(text.slice(index + 2))![0];
+      if (!before.includes('-') && !after.includes('-') && isNumberRange(before, after)) {
+        edits.push({ start: index + 1, end: index + 2, replacement: '–' });
+      }
+    } else {
+      const start = index + match[2].length;
+      edits.push({ start, end: start + 1, replacement: '–' });
+    }
+  }
+  return edits;
+}
+
+/**
+ * Whether "from-to" reads as a range of years or pages: at most four digits
+ * a side, the end no more than a digit longer than the start and past it,
+ * abbreviated ends (1990-95, 123-45) counting from the start's last digits.
+ * Phone numbers (555-1234), ISBNs and dates (2023-01) keep their hyphens.
+ */
+function isNumberRange(from: string, to: string): boolean {
+  if (from.length > 4 || to.length > 4 || to.length > from.length + 1) return false;
+  if (from.length === 3 && to.length === 4) return false;
+  const start = to.length < from.length ? from.slice(-to.length) : from;
+  return Number(to) > Number(start);
+}
+
+/**
+ * Three dots, spaced or not, become an ellipsis; one that follows a space is
+ * tied to the word before, so it never starts a line
+ */
+function setEllipses(text: string): Edit[] {
+  const edits: Edit[] = [];
+  for (const match of text.matchAll(/( ?)\.(?: ?\.){2}/g)) {
+    const index = match.index!;
+    edits.push({ start: index, end: index + match[0].length, replacement: match[1] ? `${NBSP}…` : '…' });
+  }
+  return edits;
+}
+
+// =============================================================================
+// SPACING
+// =============================================================================
+
+// Units and abbreviations that follow a number: "10 km", "5 p.m.", "20 %"
+const UNITS = /^(%|‰|°[CF]?|km\/h|km|cm|mm|m|kg|mg|g|lbs?|oz|ft|mi|mph|ml|mL|l|L|ms|min|h|hrs?|s|[ap]\.m\.|AM|PM|BC|AD|BCE|CE|kB|MB|GB|kHz|Hz|kW|W|V|€|\$|£)(?![A-Za-z\d])/;
+
+/**
+ * No-break spaces between a number and its unit, and after an initial
+ * (J. R. R. Tolkien), so a line never breaks between them
+ */
+function setNoBreakSpaces(text: string): Edit[] {
+  const edits: Edit[] = [];
+  for (const match of text.matchAll(/ /g)) {
+    const index = match.index!;
+    const before = text.slice(Math.max(0, index - 3), index);
+    const after = text.slice(index + 1);
+    const isUnit = /\d$/.test(before) && UNITS.test(after);
+    const isInitial = /(^|[^A-Za-z])[A-Z]\.$/.test(before) && /^[A-Z]/.test(after);
+    if (isUnit || isInitial) edits.push({ start: index, end: index + 1, replacement: NBSP });
+  }
+  return edits;
+}
+
+/**
+ * French spacing: a no-break space before ; : ! ? and inside « », replacing
+ * the space if there is one. Punctuation inside words and numbers
+ * (http://, 10:30) is left alone.
+ */
+function setFrenchSpacing(text: string): Edit[] {
+  const edits: Edit[] = [];
+  for (const match of text.matchAll(/( ?)([;:!?»])|«( ?)/g)) {
+    const index = match.index!;
+    if (match[0].startsWith('«')) {
+      const next = text[index + 1 + match[3].length];
+      if (next !== undefined && !/\s/.test(next)) edits.push({ start: index + 1, end: index + 1 + match[3].length, replacement: NBSP });
+      continue;
+    }
+
+    const mark = index + match[1].length;
+    const previous = text[index - 1];
+    const next = text[mark + 1];
+    const endsClause = match[2] === '»' || next === undefined || /[\s»”)\]]/.test(next) || /[;:!?]/.test(next);
+    // Only the first of ?! takes the space, but a closing » is always spaced
+    if (previous === undefined || /\s/.test(previous) || (match[2] !== '»' && /[;:!?«]/.test(previous)) || !endsClause) continue;
+    edits.push({ start: index, end: mark, replacement: NBSP });
+  }
+  return edits;
+}
+
+// =============================================================================
+// TEXT PASSES
+// =============================================================================
+
+/**
+ * Apply edits found on the whole text back to its leaves. Edits touching
+ * protected text are dropped; the rest go to the leaf they start in.
+ */
+function applyEdits(leaves: TextLeaf[], edits: Edit[]): void {
+  if (edits.length === 0) return;
+
+  const owners: number[] = [];
+  leaves.forEach((leaf, i) => {
+    for (let k = 0; k < leaf.text.length; k++) owners.push(i);
+  });
+  const isProtected = (index: number) => index < owners.length && leaves[owners[index]].isProtected;
+  const ownerAt = (index: number) => (index < owners.length ? owners[index] : leaves.length - 1);
+
+  const text = leaves.map(leaf => leaf.text).join('');
+  const outputs = leaves.map(() => '');
+  let position = 0;
+  for (const edit of edits.sort((a, b) => a.start - b.start)) {
+    if (edit.start < position) continue;
+    let touchesProtected = false;
+    for (let i = edit.start; i < Math.max(edit.end, edit.start + 1); i++) touchesProtected ||= isProtected(i);
+    if (touchesProtected) continue;
+
+    for (; position < edit.start; position++) outputs[owners[position]] += text[position];
+    outputs[ownerAt(edit.start)] += edit.replacement;
+    position = edit.end;
+  }
+  for (; position < text.length; position++) outputs[owners[position]] += text[position];
+
+  leaves.forEach((leaf, i) => {
+    leaf.text = outputs[i];
+  });
+}
+
+/**
+ * Run the chosen passes over the text of a paragraph, split into leaves.
+ * Dashes and ellipses go first, so the quotes see the final punctuation.
+ */
+function setTypography(leaves: TextLeaf[], options: Set<TypographyOption>, language: string): void {
+  const passes: ((text: string) => Edit[])[] = [];
+  if (options.has('ellipses')) passes.push(setEllipses);
+  if (options.has('dashes')) passes.push(setDashes);
+  if (options.has('quotes')) passes.push(text => setQuotes(text, language));
+  if (options.has('no-break-spaces')) passes.push(setNoBreakSpaces);
+  if (options.has('french-spacing') && language === 'fr') passes.push(setFrenchSpacing);
+
+  for (const pass of passes) {
+    applyEdits(leaves, pass(leaves.map(leaf => leaf.text).join('')));
+  }
+}
+
+/**
+ * Two-letter language code of dc:language ("en-GB" -> "en")
+ */
+function getLanguageCode(language: string | undefined): string {
+  return (language || 'en').toLowerCase().split(/[-_]/)[0];
+}
+
+/**
+ * Set the typography of a content tree in place: the runs of every text node
+ * and heading are treated as one text, so quotes see across <em> and links
+ */
+export function applyTypography(node: ContentNode, options: TypographyOption[], language?: string): void {
+  if (options.length === 0 || VERBATIM_TAGS.has(node.tagName)) return;
+
+  if (node.runs) {
+    const runLeaves: { run: InlineRun; leaf: TextLeaf }[] = [];
+    const collect = (runs: InlineRun[], isProtected: boolean) => {
+      for (const run of runs) {
+        // Note reference markers are replaced when the book is numbered
+        const runIsProtected = isProtected || VERBATIM_TAGS.has(run.tagName) || !!run.noteRef;
+        if (run.text !== undefined) runLeaves.push({ run, leaf: { text: run.text, isProtected: runIsProtected } });
+        if (run.children) collect(run.children, runIsProtected);
+      }
+    };
+    collect(node.runs, false);
+
+    setTypography(runLeaves.map(({ leaf }) => leaf), new Set(options), getLanguageCode(language));
+    for (const { run, leaf } of runLeaves) run.text = leaf.text;
+    node.text = runLeaves.map(({ leaf }) => leaf.text).join('');
+  } else if (node.text !== undefined) {
+    node.text = applyTypographyToText(node.text, options, language);
+  }
+
+  for (const child of node.children || []) {
+    applyTypography(child, options, language);
+  }
+}
+
+/**
+ * Set the typography of a plain string, such as a chapter title
+ */
+export function applyTypographyToText(text: string, options: TypographyOption[], language?: string): string {
+  const leaf: TextLeaf = { text, isProtected: false };
+  setTypography([leaf], new Set(options), getLanguageCode(language));
+  return leaf.text;
+}
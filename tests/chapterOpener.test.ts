@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { convertEpubToPdf } from '../app/actions/convert';
+import { buildEpub, epubFormData, packageDocument } from './epub';
+import { readPdfText } from './pdf';
+
+const CSS = 'h1 { font-size: 30pt } .chapnum { font-size: 0.5em } .subtitle { font-size: 14pt }';
+
+function chapter(heading: string): string {
+  return `<html><head><link rel="stylesheet" href="style.css"/></head><body>${heading}<p>Body text.</p></body></html>`;
+}
+
+async function convertChapters(...headings: string[]) {
+  const items = Object.fromEntries(headings.map((_, i) => [`c${i + 1}`, `c${i + 1}.xhtml`]));
+  const epub = await buildEpub({
+    'OEBPS/content.opf': packageDocument({ ...items, css: 'style.css' }),
+    'OEBPS/style.css': CSS,
+    ...Object.fromEntries(headings.map((heading, i) => [`OEBPS/c${i + 1}.xhtml`, chapter(heading)])),
+  });
+  const result = await convertEpubToPdf(epubFormData(epub));
+  expect(result.success).toBe(true);
+  return readPdfText(result.pdfBase64!);
+}
+
+describe('chapter opener', () => {
+  it('sets the title in the CSS of the heading it replaces', async () => {
+    const texts = await convertChapters('<h1>Plain Title</h1>');
+
+    expect(texts).toContainEqual(expect.objectContaining({ text: 'Plain Title', fontSize: 30 }));
+  }, 60_000);
+
+  it('sets the number and subtitle in the CSS of their own elements', async () => {
+    const texts = await convertChapters(
+      '<h1><span class="chapnum">12</span> The Long Night <span class="subtitle">In which it rains</span></h1>'
+    );
+
+    // The label is letter-spaced, so pdf.js reads its digits as separate words
+    expect(texts.some(t => t.text.replace(/\s/g, '') === '12' && t.fontSize === 15)).toBe(true);
+    expect(texts).toContainEqual(expect.objectContaining({ text: 'The Long Night', fontSize: 30 }));
+    expect(texts).toContainEqual(expect.objectContaining({ text: 'In which it rains', fontSize: 14 }));
+  }, 60_000);
+});
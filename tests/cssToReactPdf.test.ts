@@ -0,0 +1,223 @@
+import { describe, expect, it } from 'vitest';
+import {
+  checkCss,
+  computeStyle,
+  getChildPaths,
+  getInitialStyle,
+  getPageBox,
+  getStylesForElement,
+  parseCssToReactPdf,
+  type ElementPath,
+  type PageSelector,
+  type StyledNode,
+} from '../lib/cssToReactPdf';
+
+function element(tagName: string, attributes: Record<string, string> = {}): StyledNode {
+  return { tagName, classNames: attributes.class?.split(' ') ?? [], attributes };
+}
+
+/**
+ * Paths of a small document:
+ * <body><section class="chapter" id="one" lang="fr">
+ *   <h1/> <p class="lead"/> <p/> <blockquote><p/></blockquote> <p epub:type="footnote"/>
+ * </section></body>
+ */
+function getDocumentPaths() {
+  const [body] = getChildPaths(undefined, [element('body')]) as ElementPath[];
+  const [section] = getChildPaths(body, [element('section', { class: 'chapter', id: 'one', lang: 'fr' })]) as ElementPath[];
+  const [h1, lead, second, blockquote, footnote] = getChildPaths(section, [
+    element('h1'),
+    element('p', { class: 'lead' }),
+    element('p'),
+    element('blockquote'),
+    element('p', { 'epub:type': 'footnote' }),
+  ]) as ElementPath[];
+  const [quoted] = getChildPaths(blockquote, [element('p')]) as ElementPath[];
+  return { body, section, h1, lead, second, blockquote, quoted, footnote };
+}
+
+function colorOf(css: string, path: ElementPath): unknown {
+  return getStylesForElement(parseCssToReactPdf(css), path).color;
+}
+
+describe('compileSelector', () => {
+  const paths = getDocumentPaths();
+
+  it('matches type, class, id and attribute selectors', () => {
+    expect(colorOf('p { color: red }', paths.second)).toBe('red');
+    expect(colorOf('.lead { color: red }', paths.lead)).toBe('red');
+    expect(colorOf('.lead { color: red }', paths.second)).toBeUndefined();
+    expect(colorOf('#one p { color: red }', paths.quoted)).toBe('red');
+    expect(colorOf('[epub|type~="footnote"] { color: red }', paths.footnote)).toBe('red');
+    expect(colorOf('[*|type^="foot"] { color: red }', paths.footnote)).toBe('red');
+  });
+
+  it('matches descendant, child and sibling combinators', () => {
+    expect(colorOf('section p { color: red }', paths.quoted)).toBe('red');
+    expect(colorOf('section > p { color: red }', paths.quoted)).toBeUndefined();
+    expect(colorOf('section > p { color: red }', paths.second)).toBe('red');
+    expect(colorOf('h1 + p { color: red }', paths.lead)).toBe('red');
+    expect(colorOf('h1 + p { color: red }', paths.second)).toBeUndefined();
+    expect(colorOf('h1 ~ p { color: red }', paths.footnote)).toBe('red');
+  });
+
+  it('matches structural pseudo-classes', () => {
+    expect(colorOf('p:first-of-type { color: red }', paths.lead)).toBe('red');
+    expect(colorOf('p:nth-of-type(2) { color: red }', paths.second)).toBe('red');
+    expect(colorOf('section > :nth-child(2n+1) { color: red }', paths.second)).toBe('red');
+    expect(colorOf('section > :nth-child(2n+1) { color: red }', paths.lead)).toBeUndefined();
+    expect(colorOf('p:last-child { color: red }', paths.footnote)).toBe('red');
+    expect(colorOf('p:not(.lead) { color: red }', paths.lead)).toBeUndefined();
+    expect(colorOf('p:is(.lead, blockquote p) { color: red }', paths.quoted)).toBe('red');
+    expect(colorOf('p:lang(fr) { color: red }', paths.quoted)).toBe('red');
+  });
+
+  it('never matches interaction states', () => {
+    expect(colorOf('p:hover { color: red }', paths.second)).toBeUndefined();
+  });
+
+  it('skips selectors it cannot match, and checkCss reports them', () => {
+    const css = 'p::first-line { color: red } p { color: blue }';
+    expect(colorOf(css, paths.second)).toBe('blue');
+    expect(checkCss(css, 'style.css')).toContainEqual(expect.objectContaining({
+      source: 'p::first-line',
+      message: expect.stringContaining('::first-line is not supported'),
+    }));
+  });
+});
+
+describe('specificity', () => {
+  const paths = getDocumentPaths();
+
+  it('lets the more specific selector win whatever the order', () => {
+    expect(colorOf('.lead { color: red } p { color: blue }', paths.lead)).toBe('red');
+    expect(colorOf('#one p { color: red } section > p.lead { color: blue }', paths.lead)).toBe('red');
+    expect(colorOf('p:first-of-type { color: red } p { color: blue }', paths.lead)).toBe('red');
+  });
+
+  it('lets the later rule win a tie', () => {
+    expect(colorOf('p { color: red } p { color: blue }', paths.lead)).toBe('blue');
+    expect(colorOf('.lead { color: red } p:first-of-type { color: blue }', paths.lead)).toBe('blue');
+  });
+
+  it('gives each selector of a list its own specificity', () => {
+    expect(colorOf('.lead, p { color: red } p { color: blue }', paths.lead)).toBe('red');
+    expect(colorOf('.lead, p { color: red } p { color: blue }', paths.second)).toBe('blue');
+  });
+
+  it('counts :where as nothing, and :is and :not as their most specific argument', () => {
+    expect(colorOf('p:where(.lead) { color: red } p { color: blue }', paths.lead)).toBe('blue');
+    expect(colorOf('p:is(.lead, h1) { color: red } p.lead { color: blue }', paths.lead)).toBe('blue');
+    expect(colorOf('p:not(#two) { color: red } p.lead { color: blue }', paths.lead)).toBe('red');
+  });
+
+  it('puts the style attribute over normal declarations and !important over both', () => {
+    const styled = { ...paths.second, node: { ...paths.second.node, style: { color: 'green' } } };
+    expect(colorOf('#one p { color: red }', styled)).toBe('green');
+    expect(colorOf('p { color: red !important }', styled)).toBe('red');
+    expect(colorOf('p { color: red !important } #one p { color: blue !important }', styled)).toBe('blue');
+  });
+});
+
+describe('computeStyle', () => {
+  // 10pt text in a 300pt wide block, on a book whose root font size is 12pt
+  const parent = { ...getInitialStyle(12, 300), inherited: { fontSize: 10 } };
+
+  it('resolves an em font size against the parent and other em lengths against the element', () => {
+    const { style } = computeStyle({ fontSize: '1.5em', marginTop: '2em' }, parent);
+    expect(style.fontSize).toBe(15);
+    expect(style.marginTop).toBe(30);
+  });
+
+  it('resolves rem against the root font size', () => {
+    const { style } = computeStyle({ fontSize: '2rem', textIndent: '1rem' }, parent);
+    expect(style.fontSize).toBe(24);
+    expect(style.textIndent).toBe(12);
+  });
+
+  it('resolves % margins, indents and widths against the containing block', () => {
+    const { style, content } = computeStyle({ marginHorizontal: '10%', textIndent: '5%', paddingLeft: '1em' }, parent);
+    expect(style.marginHorizontal).toBe(30);
+    expect(style.textIndent).toBe(15);
+    expect(content.blockWidth).toBe(300 - 60 - 10);
+
+    const sized = computeStyle({ width: '50%', paddingHorizontal: 5, borderWidth: 1 }, parent);
+    expect(sized.style.width).toBe(150);
+    expect(sized.content.blockWidth).toBe(150 - 10 - 2);
+  });
+
+  it('passes computed font sizes and inherited properties down', () => {
+    const { content } = computeStyle({ fontSize: '1.2em', color: 'red', marginTop: 4 }, parent);
+    const child = computeStyle({ fontSize: '0.5em' }, content);
+    expect(child.style.fontSize).toBe(6);
+    expect(child.content.inherited).toMatchObject({ fontSize: 6, color: 'red' });
+    expect(child.content.inherited.marginTop).toBeUndefined();
+    expect(child.content.rootFontSize).toBe(12);
+  });
+
+  it('inherits a plain-number line height as the factor', () => {
+    const { style, content } = computeStyle({ lineHeight: 1.5 }, parent);
+    expect(style.lineHeight).toBe('15pt');
+
+    const larger = computeStyle({ fontSize: '2em' }, content);
+    expect(larger.style.lineHeight).toBe('30pt');
+  });
+
+  it('inherits other line heights as the length they compute to', () => {
+    const { style, content } = computeStyle({ lineHeight: '150%' }, parent);
+    expect(style.lineHeight).toBe('15pt');
+
+    const larger = computeStyle({ fontSize: '2em' }, content);
+    expect(larger.style.lineHeight).toBe('15pt');
+    expect(computeStyle({ lineHeight: '2em' }, parent).style.lineHeight).toBe('20pt');
+  });
+});
+
+describe('getPageBox', () => {
+  const right: PageSelector = { side: 'right', first: false };
+  const pageBox = (css: string, page: PageSelector) => getPageBox(parseCssToReactPdf(css), page);
+
+  it('reads sizes as lengths or keywords', () => {
+    expect(pageBox('@page { size: 5in 8in }', right).size).toEqual({ width: 360, height: 576 });
+    expect(pageBox('@page { size: 6in }', right).size).toEqual({ width: 432, height: 432 });
+    expect(pageBox('@page { size: A5 }', right).size).toEqual({ width: 419.53, height: 595.28 });
+    expect(pageBox('@page { size: letter landscape }', right).size).toEqual({ width: 792, height: 612 });
+    expect(pageBox('@page { size: auto }', right).size).toBeUndefined();
+  });
+
+  it('reads the margin shorthand and longhands, and drops relative margins', () => {
+    expect(pageBox('@page { margin: 1in 0.5in }', right)).toEqual({
+      marginTop: 72, marginRight: 36, marginBottom: 72, marginLeft: 36,
+    });
+    expect(pageBox('@page { margin: 36pt; margin-left: 2em; margin-bottom: 1in }', right)).toEqual({
+      marginTop: 36, marginRight: 36, marginBottom: 72,
+    });
+  });
+
+  it('applies :left, :right and :first rules to the pages they select', () => {
+    const css = '@page { margin: 36pt } @page :left { margin-right: 54pt } @page :right { margin-left: 54pt } ' +
+      '@page :first { margin-top: 144pt }';
+    expect(pageBox(css, { side: 'left', first: false })).toMatchObject({ marginRight: 54, marginLeft: 36, marginTop: 36 });
+    expect(pageBox(css, right)).toMatchObject({ marginRight: 36, marginLeft: 54, marginTop: 36 });
+    expect(pageBox(css, { side: 'right', first: true })).toMatchObject({ marginLeft: 54, marginTop: 144 });
+  });
+
+  it('lets the more specific rule win whatever the order, and the later rule a tie', () => {
+    const css = '@page chapter:first { margin-top: 144pt } @page :first { margin-top: 72pt } ' +
+      '@page chapter { margin-top: 18pt } @page chapter { margin-top: 36pt }';
+    expect(pageBox(css, { name: 'chapter', side: 'right', first: true }).marginTop).toBe(144);
+    expect(pageBox(css, { side: 'right', first: true }).marginTop).toBe(72);
+    expect(pageBox(css, { name: 'chapter', side: 'right', first: false }).marginTop).toBe(36);
+  });
+
+  it('matches :first on a named page at the start of each run of that name', () => {
+    const css = '@page chapter:first { margin-top: 144pt } @page :first { margin-top: 72pt }';
+    const page: PageSelector = { name: 'chapter', side: 'right', first: false, firstOfName: true };
+    expect(pageBox(css, page).marginTop).toBe(144);
+    expect(pageBox(css, { ...page, name: undefined }).marginTop).toBeUndefined();
+  });
+
+  it('never applies :blank rules', () => {
+    expect(pageBox('@page :blank { margin-top: 144pt }', { side: 'left', first: true })).toEqual({});
+  });
+});
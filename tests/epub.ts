@@ -0,0 +1,51 @@
+import JSZip from 'jszip';
+
+/**
+ * Zip the given files into an EPUB whose package document is
+ * OEBPS/content.opf
+ */
+export async function buildEpub(files: Record<string, string | Uint8Array>): Promise<Uint8Array<ArrayBuffer>> {
+  const zip = new JSZip();
+  zip.file('mimetype', 'application/epub+zip');
+  zip.file(
+    'META-INF/container.xml',
+    '<?xml version="1.0"?><container><rootfiles>' +
+      '<rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>' +
+      '</rootfiles></container>'
+  );
+  for (const [path, content] of Object.entries(files)) {
+    zip.file(path, content);
+  }
+  return new Uint8Array(await zip.generateAsync({ type: 'uint8array' }));
+}
+
+/**
+ * Package document listing the given items, with every XHTML item in the spine
+ */
+export function packageDocument(items: Record<string, string>, metadata = '<dc:title>Test</dc:title>'): string {
+  const manifest = Object.entries(items)
+    .map(([id, href]) => `<item id="${id}" href="${href}" media-type="${getMediaType(href)}"/>`)
+    .join('');
+  const spine = Object.entries(items)
+    .filter(([, href]) => href.endsWith('.xhtml'))
+    .map(([id]) => `<itemref idref="${id}"/>`)
+    .join('');
+  return `<package unique-identifier="uid"><metadata>${metadata}</metadata>` +
+    `<manifest>${manifest}</manifest><spine>${spine}</spine></package>`;
+}
+
+function getMediaType(href: string): string {
+  if (href.endsWith('.xhtml')) return 'application/xhtml+xml';
+  if (href.endsWith('.css')) return 'text/css';
+  if (href.endsWith('.ttf')) return 'font/ttf';
+  return 'application/octet-stream';
+}
+
+/**
+ * Form data the converter takes, with an EPUB as the uploaded file
+ */
+export function epubFormData(epub: Uint8Array<ArrayBuffer>): FormData {
+  const formData = new FormData();
+  formData.append('epub', new File([epub], 'book.epub'));
+  return formData;
+}
@@ -0,0 +1,77 @@
+import { createHash } from 'crypto';
+import { describe, expect, it } from 'vitest';
+import { DrmError, parseEpub } from '../lib/epubParser';
+import { buildEpub, packageDocument } from './epub';
+
+const IDPF_FONT_OBFUSCATION = 'http://www.idpf.org/2008/embedding';
+const ADOBE_FONT_OBFUSCATION = 'http://ns.adobe.com/pdf/enc#RC';
+
+// TrueType header followed by enough bytes to cover the obfuscated prefix
+const FONT = new Uint8Array(2000).map((_, i) => (i < 4 ? [0, 1, 0, 0][i] : (i * 37) % 251));
+
+const CSS = '@font-face { font-family: Body; src: url(body.ttf) }';
+const CHAPTER = '<html><head><link rel="stylesheet" href="style.css"/></head><body><p>Text</p></body></html>';
+
+function encryptionXml(algorithm: string): string {
+  return '<encryption><EncryptedData>' +
+    `<EncryptionMethod Algorithm="${algorithm}"/>` +
+    '<CipherData><CipherReference URI="OEBPS/body.ttf"/></CipherData>' +
+    '</EncryptedData></encryption>';
+}
+
+function xorPrefix(data: Uint8Array, key: Uint8Array, length: number): Uint8Array {
+  return data.map((byte, i) => (i < length ? byte ^ key[i % key.length] : byte));
+}
+
+function buildFontEpub(metadata: string, algorithm: string, font: Uint8Array): Promise<Uint8Array> {
+  return buildEpub({
+    'META-INF/encryption.xml': encryptionXml(algorithm),
+    'OEBPS/content.opf': packageDocument({ c1: 'c1.xhtml', css: 'style.css', font: 'body.ttf' }, metadata),
+    'OEBPS/style.css': CSS,
+    'OEBPS/c1.xhtml': CHAPTER,
+    'OEBPS/body.ttf': font,
+  });
+}
+
+describe('undoFontObfuscation', () => {
+  it('restores IDPF-obfuscated fonts with the SHA-1 of the unique identifier', async () => {
+    const key = createHash('sha1').update('urn:isbn:9780000000000').digest();
+    const metadata = '<dc:identifier id="uid"> urn:isbn:9780000000000 </dc:identifier>';
+    const epub = await buildFontEpub(metadata, IDPF_FONT_OBFUSCATION, xorPrefix(FONT, key, 1040));
+
+    const { fonts } = await parseEpub(epub);
+
+    expect(fonts).toHaveLength(1);
+    expect(fonts[0].data).toEqual(FONT);
+  });
+
+  it('restores Adobe-obfuscated fonts with the bytes of the book UUID', async () => {
+    const uuid = '0f1e2d3c-4b5a-6978-8796-a5b4c3d2e1f0';
+    const key = Buffer.from(uuid.replace(/-/g, ''), 'hex');
+    const metadata = `<dc:identifier id="uid">urn:uuid:${uuid}</dc:identifier>`;
+    const epub = await buildFontEpub(metadata, ADOBE_FONT_OBFUSCATION, xorPrefix(FONT, key, 1024));
+
+    const { fonts } = await parseEpub(epub);
+
+    expect(fonts).toHaveLength(1);
+    expect(fonts[0].data).toEqual(FONT);
+  });
+
+  it('warns when the package has no identifier to restore a font with', async () => {
+    const epub = await buildFontEpub('<dc:title>Test</dc:title>', ADOBE_FONT_OBFUSCATION, FONT);
+
+    const { diagnostics } = await parseEpub(epub);
+
+    expect(diagnostics).toContainEqual(expect.objectContaining({
+      severity: 'warning',
+      source: 'OEBPS/body.ttf',
+      message: expect.stringContaining('Obfuscated font cannot be restored'),
+    }));
+  });
+
+  it('rejects content encrypted with anything other than font obfuscation', async () => {
+    const epub = await buildFontEpub('<dc:title>Test</dc:title>', 'http://www.w3.org/2001/04/xmlenc#aes128-cbc', FONT);
+
+    await expect(parseEpub(epub)).rejects.toBeInstanceOf(DrmError);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { convertEpubToPdf } from '../app/actions/convert';
+import { buildEpub, epubFormData, packageDocument } from './epub';
+import { readPdfText } from './pdf';
+
+const WORDS = ['lorem', 'ipsum', 'dolor', 'sit', 'amet', 'consectetur'];
+
+function words(count: number): string {
+  return Array.from({ length: count }, (_, i) => WORDS[i % WORDS.length]).join(' ');
+}
+
+/**
+ * Chapter of long paragraphs with a footnote reference near the middle of
+ * each, so page breaks fall before some references and after others
+ */
+function buildChapter(paragraphs: number): string {
+  let body = '<h1>One</h1>';
+  let notes = '';
+  for (let i = 1; i <= paragraphs; i++) {
+    const length = 90 + (i * 53) % 140;
+    const at = Math.round(length * [0.35, 0.45, 0.55, 0.65][i % 4]);
+    body += `<p>${words(at)}<a epub:type="noteref" href="#fn${i}">${i}</a> ${words(length - at)}.</p>`;
+    notes += `<aside epub:type="footnote" id="fn${i}"><p>Footnote ${i} ${words(6 + (i * 7) % 20)}.</p></aside>`;
+  }
+  return `<html><body>${body}${notes}</body></html>`;
+}
+
+describe('footnotes', () => {
+  it('print on the page of their reference', async () => {
+    const epub = await buildEpub({
+      'OEBPS/content.opf': packageDocument({ c1: 'c1.xhtml' }),
+      'OEBPS/c1.xhtml': buildChapter(24),
+    });
+
+    const result = await convertEpubToPdf(epubFormData(epub));
+
+    expect(result.success).toBe(true);
+    expect(result.diagnostics).toEqual([]);
+    // References are the numbers set small in the text; notes open with "Footnote <number>"
+    const references = new Map<number, number>();
+    const notes = new Map<number, number>();
+    for (const { pageNumber, text, fontSize } of await readPdfText(result.pdfBase64!)) {
+      if (/^\d+$/.test(text) && fontSize < 8) references.set(Number(text), pageNumber);
+      const note = text.match(/^Footnote (\d+)/);
+      if (note) notes.set(Number(note[1]), pageNumber);
+    }
+    expect(references.size).toBe(24);
+    for (const [number, pageNumber] of references) {
+      expect({ note: number, page: notes.get(number) }).toEqual({ note: number, page: pageNumber });
+    }
+  }, 120_000);
+});
@@ -0,0 +1,24 @@
+import { getDocument } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+
+// Run of text drawn on a page of a PDF
+export interface PdfText {
+  pageNumber: number;
+  text: string;
+  fontSize: number;  // pt
+}
+
+/**
+ * Runs of text of a PDF given as base64, page by page
+ */
+export async function readPdfText(pdfBase64: string): Promise<PdfText[]> {
+  const document = await getDocument({ data: new Uint8Array(Buffer.from(pdfBase64, 'base64')) }).promise;
+  const texts: PdfText[] = [];
+  for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+    const { items } = await (await document.getPage(pageNumber)).getTextContent();
+    for (const item of items as TextItem[]) {
+      if (item.str.trim()) texts.push({ pageNumber, text: item.str, fontSize: item.transform[0] });
+    }
+  }
+  return texts;
+}
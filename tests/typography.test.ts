@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import type { ContentNode, InlineRun } from '../lib/epubParser';
+import { applyTypography, applyTypographyToText } from '../lib/typography';
+
+const quotes = (text: string, language?: string) => applyTypographyToText(text, ['quotes'], language);
+const dashes = (text: string) => applyTypographyToText(text, ['dashes']);
+
+function run(tagName: string, content: string | InlineRun[]): InlineRun {
+  return typeof content === 'string'
+    ? { tagName, classNames: [], attributes: {}, text: content }
+    : { tagName, classNames: [], attributes: {}, children: content };
+}
+
+describe('setQuotes', () => {
+  it('curls double and single quotes', () => {
+    expect(quotes('He said "yes" and \'no\'.')).toBe('He said “yes” and ‘no’.');
+  });
+
+  it('opens a quote set right after an opening quote', () => {
+    expect(quotes('"\'Hello,\' she said."')).toBe('“‘Hello,’ she said.”');
+    expect(quotes('\'"Hello"\'')).toBe('‘“Hello”’');
+  });
+
+  it('opens after brackets and dashes', () => {
+    expect(quotes('("fine")')).toBe('(“fine”)');
+    expect(quotes('wait—"now"')).toBe('wait—“now”');
+  });
+
+  it('sets apostrophes in words, elisions and decades', () => {
+    expect(quotes("don't")).toBe('don’t');
+    expect(quotes("'Tis the season")).toBe('’Tis the season');
+    expect(quotes("back in the '90s")).toBe('back in the ’90s');
+  });
+
+  it('uses the marks of the language', () => {
+    expect(quotes('"Guten Tag"', 'de-DE')).toBe('„Guten Tag“');
+    expect(quotes('"Bonjour"', 'fr')).toBe('«Bonjour»');
+    expect(quotes('"Er sagte \'Hallo\'"', 'de')).toBe('„Er sagte ‚Hallo‘“');
+  });
+
+  it('alternates a mark with space on both sides', () => {
+    expect(quotes('He said " yes " twice')).toBe('He said “ yes ” twice');
+  });
+});
+
+describe('setDashes', () => {
+  it('turns double and triple hyphens into an em dash', () => {
+    expect(dashes('wait--now')).toBe('wait—now');
+    expect(dashes('wait---now')).toBe('wait—now');
+  });
+
+  it('turns a hyphen standing alone between spaces into an en dash', () => {
+    expect(dashes('this - that')).toBe('this – that');
+  });
+
+  it('sets ranges between short numbers', () => {
+    expect(dashes('pages 12-14')).toBe('pages 12–14');
+    expect(dashes('1990-95')).toBe('1990–95');
+  });
+
+  it('leaves phone numbers, dates and hyphenated words alone', () => {
+    expect(dashes('555-123-4567')).toBe('555-123-4567');
+    expect(dashes('well-known')).toBe('well-known');
+  });
+});
+
+describe('applyTypography', () => {
+  it('sees quotes across inline elements and leaves code as written', () => {
+    const node: ContentNode = {
+      type: 'text',
+      tagName: 'p',
+      classNames: [],
+      attributes: {},
+      runs: [run('#text', 'Type "'), run('code', '"x"--y'), run('#text', '" -- done')],
+    };
+
+    applyTypography(node, ['quotes', 'dashes']);
+
+    expect(node.runs!.map(({ text }) => text)).toEqual(['Type “', '"x"--y', '” — done']);
+    expect(node.text).toBe('Type “"x"--y” — done');
+  });
+
+  it('follows runs into nested inline elements', () => {
+    const node: ContentNode = {
+      type: 'text',
+      tagName: 'p',
+      classNames: [],
+      attributes: {},
+      runs: [run('#text', 'She wrote "'), run('em', [run('#text', 'never')]), run('#text', '".')],
+    };
+
+    applyTypography(node, ['quotes']);
+
+    expect(node.text).toBe('She wrote “never”.');
+  });
+});